@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+/**
+ * Source state of the project when it was published
+ */
+export interface GitInfo {
+    commit: string;
+    /** Undefined on a detached HEAD */
+    branch?: string;
+    /** Uncommitted changes or untracked files */
+    dirty: boolean;
+    /** Remote tracking branch, e.g. origin/main */
+    upstream?: string;
+    /** Whether the commit is contained in the remote tracking branch (as of the last fetch) */
+    pushed: boolean;
+}
+
+/**
+ * Content of BUILD_INFO.json in the publish output
+ */
+export interface BuildInfo {
+    project: string;
+    runtime: string;
+    profile?: string;
+    /** ISO timestamp */
+    builtAt: string;
+    version?: string;
+    buildNumber?: number;
+    git?: Pick<GitInfo, 'branch' | 'commit' | 'dirty'>;
+}
+
+export const BUILD_INFO_FILE = 'BUILD_INFO.json';
+
+/**
+ * Run git and return stdout; undefined when git fails or exits with a non-zero code
+ */
+function git(cwd: string, args: string[]): Promise<string | undefined> {
+    return new Promise(resolve => {
+        execFile('git', args, { cwd, timeout: 10000 }, (err, stdout) => {
+            resolve(err ? undefined : stdout.trim());
+        });
+    });
+}
+
+/**
+ * Branch, commit and dirty state of the repository containing cwd; undefined outside of a git repository
+ */
+export async function getGitInfo(cwd: string): Promise<GitInfo | undefined> {
+    const commit = await git(cwd, ['rev-parse', 'HEAD']);
+    if (!commit) {
+        return undefined;
+    }
+
+    const [branch, status, upstream] = await Promise.all([
+        git(cwd, ['symbolic-ref', '--short', '-q', 'HEAD']),
+        // 未跟踪的文件也算：SDK 项目会把目录下新增的 .cs 文件一起编译
+        git(cwd, ['status', '--porcelain']),
+        git(cwd, ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{u}'])
+    ]);
+    const pushed = !!upstream && await git(cwd, ['merge-base', '--is-ancestor', 'HEAD', upstream]) !== undefined;
+
+    return {
+        commit,
+        branch: branch || undefined,
+        dirty: !!status,
+        upstream: upstream || undefined,
+        pushed
+    };
+}
+
+/**
+ * Short form for logs and notifications, e.g. main@1a2b3c4d (dirty)
+ */
+export function describeGitInfo(info: GitInfo | undefined): string {
+    if (!info) {
+        return 'not a git repository';
+    }
+    return `${info.branch || 'detached'}@${info.commit.slice(0, 8)}${info.dirty ? ' (dirty)' : ''}`;
+}
+
+/**
+ * Write BUILD_INFO.json to the publish output so the deployed files say which source they came from
+ */
+export function writeBuildInfo(outputPath: string, info: BuildInfo) {
+    fs.mkdirSync(outputPath, { recursive: true });
+    fs.writeFileSync(path.join(outputPath, BUILD_INFO_FILE), JSON.stringify(info, null, 2) + '\n', 'utf-8');
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { publish, restoreRuntimes, getDirectorySize, formatSize, PublishOptions } from './publisher';
+import { ForwardingOutputChannel } from './outputChannel';
+
+export type MatrixTargetStatus = 'pending' | 'building' | 'success' | 'failed' | 'cancelled';
+
+/**
+ * Progress and result of one runtime in a build matrix
+ */
+export interface MatrixTargetState {
+    runtime: string;
+    status: MatrixTargetStatus;
+    /** bin/publish/<rid> (or the macOS package) */
+    outputPath: string;
+    sizeBytes?: number;
+    durationMs?: number;
+    error?: string;
+}
+
+export type MatrixOptions = Omit<PublishOptions, 'runtime' | 'outputPath' | 'onStatus' | 'noRestore'>;
+
+/**
+ * Output channel that prefixes every line of a concurrent build with its runtime.
+ * dotnet output arrives in arbitrary chunks, so partial lines are held until complete.
+ */
+class RuntimeOutputChannel extends ForwardingOutputChannel {
+    private _pending = '';
+
+    constructor(channel: vscode.OutputChannel, private readonly _runtime: string) {
+        super(channel);
+    }
+
+    public append(value: string) {
+        const lines = (this._pending + value).split(/\r?\n/);
+        this._pending = lines.pop() || '';
+        for (const line of lines.filter(line => line.trim())) {
+            this._channel.appendLine(`[${this._runtime}] ${line}`);
+        }
+    }
+
+    public appendLine(value: string) {
+        this.append(value + '\n');
+    }
+
+    /**
+     * Write the last partial line once the build has finished
+     */
+    public flush() {
+        if (this._pending) {
+            this._channel.appendLine(`[${this._runtime}] ${this._pending}`);
+            this._pending = '';
+        }
+    }
+}
+
+/**
+ * First MSBuild error line of a failed publish, for the summary table
+ */
+function summarizeError(error: string | undefined): string {
+    const lines = (error || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const errorLine = lines.find(line => /\berror\b/i.test(line)) || lines[0] || 'Publish failed';
+    return errorLine.length > 200 ? errorLine.slice(0, 197) + '...' : errorLine;
+}
+
+/**
+ * Publish the project for several runtimes, each into <outputRoot>/<rid>.
+ * Up to `concurrency` builds run at the same time; a failed runtime does not stop the others.
+ */
+export async function publishMatrix(
+    options: MatrixOptions,
+    runtimes: string[],
+    outputRoot: string,
+    concurrency: number,
+    outputChannel: vscode.OutputChannel,
+    onUpdate: (states: MatrixTargetState[]) => void,
+    token?: vscode.CancellationToken
+): Promise<MatrixTargetState[]> {
+    const states: MatrixTargetState[] = runtimes.map(runtime => ({
+        runtime,
+        status: 'pending',
+        outputPath: path.join(outputRoot, runtime)
+    }));
+    const update = (index: number, changes: Partial<MatrixTargetState>) => {
+        states[index] = { ...states[index], ...changes };
+        onUpdate(states.map(state => ({ ...state })));
+    };
+    onUpdate(states.map(state => ({ ...state })));
+
+    const workers = Math.max(1, Math.min(concurrency, runtimes.length));
+    // 并行构建时先统一还原，避免各自还原互相覆盖 project.assets.json
+    const noRestore = workers > 1;
+    if (noRestore) {
+        outputChannel.appendLine(`[Matrix] Restoring for ${runtimes.join(', ')}`);
+        if (!await restoreRuntimes(options.projectPath, runtimes, options, outputChannel, token)) {
+            const status: MatrixTargetStatus = token?.isCancellationRequested ? 'cancelled' : 'failed';
+            states.forEach((_, index) => update(index, { status, error: status === 'failed' ? 'Restore failed' : undefined }));
+            return states;
+        }
+    }
+
+    let next = 0;
+    const worker = async () => {
+        while (next < runtimes.length && !token?.isCancellationRequested) {
+            const index = next++;
+            const runtime = runtimes[index];
+            const started = Date.now();
+            const channel = new RuntimeOutputChannel(outputChannel, runtime);
+
+            update(index, { status: 'building' });
+            outputChannel.appendLine(`[Matrix] Building ${runtime} (${index + 1}/${runtimes.length})`);
+            const result = await publish({ ...options, runtime, outputPath: states[index].outputPath, noRestore }, channel, token);
+            channel.flush();
+
+            const durationMs = Date.now() - started;
+            if (token?.isCancellationRequested) {
+                update(index, { status: 'cancelled', durationMs });
+            } else if (result.success) {
+                let sizeBytes: number | undefined;
+                try {
+                    sizeBytes = getDirectorySize(result.outputPath);
+                } catch {
+                    // macOS 包可能是单个文件 (dmg/pkg)
+                }
+                update(index, { status: 'success', outputPath: result.outputPath, sizeBytes, durationMs });
+            } else {
+                update(index, { status: 'failed', durationMs, error: summarizeError(result.error) });
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    // 取消后尚未开始的目标
+    states.forEach((state, index) => {
+        if (state.status === 'pending') {
+            update(index, { status: 'cancelled' });
+        }
+    });
+    return states;
+}
+
+/**
+ * Plain-text summary table for the output channel
+ */
+export function formatMatrixSummary(states: MatrixTargetState[]): string {
+    const rows = states.map(state => [
+        state.runtime,
+        state.status,
+        state.sizeBytes !== undefined ? formatSize(state.sizeBytes) : '-',
+        state.durationMs !== undefined ? `${(state.durationMs / 1000).toFixed(1)}s` : '-',
+        state.status === 'success' ? state.outputPath : state.error || ''
+    ]);
+    const header = ['Runtime', 'Result', 'Size', 'Time', 'Output / Error'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const format = (row: string[]) => row.map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column])).join('  ');
+    return [format(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(format)].join('\n');
+}
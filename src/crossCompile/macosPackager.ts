@@ -10,6 +10,7 @@ import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { getAppleAppPassword } from '../secrets';
 
 const execAsync = promisify(exec);
 
@@ -80,7 +81,7 @@ export function isMacOS(): boolean {
 /**
  * 获取 macOS 打包配置
  */
-export function getMacOSPackageConfig(): MacOSPackageOptions | null {
+export async function getMacOSPackageConfig(): Promise<MacOSPackageOptions | null> {
     if (!isMacOS()) {
         return null;
     }
@@ -108,7 +109,8 @@ export function getMacOSPackageConfig(): MacOSPackageOptions | null {
             identity: config.get<string>('codeSign.identity'),
             notarize: config.get<boolean>('codeSign.notarize', false),
             appleId: config.get<string>('codeSign.appleId'),
-            appPassword: config.get<string>('codeSign.appPassword'),
+            // App 专用密码保存在 SecretStorage 中
+            appPassword: await getAppleAppPassword(),
             teamId: config.get<string>('codeSign.teamId'),
         },
     };
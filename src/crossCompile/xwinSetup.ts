@@ -12,6 +12,7 @@ import * as os from 'os';
 import * as vscode from 'vscode';
 import { getWindowsArch } from './types';
 import { checkXwin, checkWindowsSdk, checkLld } from './toolchain';
+import { getKillableSpawnOptions, killProcessTree } from '../processTree';
 
 const execAsync = promisify(exec);
 
@@ -37,11 +38,12 @@ export function getXwinSdkPath(): string {
 }
 
 /**
- * 下载 Windows SDK (使用 xwin)
+ * 下载 Windows SDK (使用 xwin)，取消时结束 xwin 进程
  */
 export async function downloadWindowsSdk(
     outputChannel: vscode.OutputChannel,
-    progress?: vscode.Progress<{ message?: string; increment?: number }>
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    token?: vscode.CancellationToken
 ): Promise<{ success: boolean; error?: string; path?: string }> {
     const sdkPath = getXwinSdkPath();
     const splatPath = path.join(sdkPath, 'splat');
@@ -86,10 +88,11 @@ export async function downloadWindowsSdk(
 
         outputChannel.appendLine(`[CrossCompile] Running: ${xwinPath} ${args.join(' ')}`);
 
-        const proc = spawn(xwinPath, args, {
+        const proc = spawn(xwinPath, args, getKillableSpawnOptions({
             cwd: sdkPath,
             shell: true,
-        });
+        }));
+        const cancelListener = token?.onCancellationRequested(() => killProcessTree(proc));
 
         let stdout = '';
         let stderr = '';
@@ -107,7 +110,11 @@ export async function downloadWindowsSdk(
         });
 
         proc.on('close', (code) => {
-            if (code === 0) {
+            cancelListener?.dispose();
+            if (token?.isCancellationRequested) {
+                outputChannel.appendLine('[CrossCompile] ✗ Windows SDK download cancelled');
+                resolve({ success: false, error: 'Cancelled' });
+            } else if (code === 0) {
                 outputChannel.appendLine('[CrossCompile] ✓ Windows SDK downloaded successfully');
                 resolve({ success: true, path: sdkPath });
             } else {
@@ -120,6 +127,7 @@ export async function downloadWindowsSdk(
         });
 
         proc.on('error', (err) => {
+            cancelListener?.dispose();
             outputChannel.appendLine(`[CrossCompile] ✗ Error: ${err.message}`);
             resolve({
                 success: false,
@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as cp from 'child_process';
 import * as os from 'os';
 import * as fs from 'fs';
+import { getTelegramBotToken, storeTelegramBotToken } from './secrets';
 
 export class DashboardProvider {
     public static readonly viewType = 'dotnetDeploy.dashboard';
@@ -62,7 +63,8 @@ export class DashboardProvider {
                 afterUploadCommand: config.get('deploy.afterUploadCommand', 'sudo {remote_path}/{app_name} start'),
                 telegramEnabled: config.get('telegram.enabled', false),
                 telegramUpload: config.get('telegram.upload', false),
-                telegramBotToken: config.get('telegram.botToken', ''),
+                // 只告知是否已保存，不把 Token 发送到 webview
+                telegramBotTokenSaved: !!(await getTelegramBotToken()),
                 telegramChatId: config.get('telegram.chatId', '')
             },
             env: envInfo
@@ -76,7 +78,9 @@ export class DashboardProvider {
         await config.update('deploy.afterUploadCommand', newConfig.afterUploadCommand, vscode.ConfigurationTarget.Global);
         await config.update('telegram.enabled', newConfig.telegramEnabled, vscode.ConfigurationTarget.Global);
         await config.update('telegram.upload', newConfig.telegramUpload, vscode.ConfigurationTarget.Global);
-        await config.update('telegram.botToken', newConfig.telegramBotToken, vscode.ConfigurationTarget.Global);
+        if (newConfig.telegramBotToken) {
+            await storeTelegramBotToken(newConfig.telegramBotToken);
+        }
         await config.update('telegram.chatId', newConfig.telegramChatId, vscode.ConfigurationTarget.Global);
         vscode.window.showInformationMessage('配置已保存');
         await this._refreshData();
@@ -229,6 +233,7 @@ vscode-button { margin-top: 12px; }
         </div>
         <div class="form-group">
             <vscode-text-field id="telegramBotToken" type="password" style="width: 100%;">Bot Token</vscode-text-field>
+            <div class="desc">Token 保存在 VS Code 安全存储中，留空则保留已保存的值</div>
         </div>
         <div class="form-group">
             <vscode-text-field id="telegramChatId" style="width: 100%;">Chat ID</vscode-text-field>
@@ -270,7 +275,9 @@ vscode-button { margin-top: 12px; }
             document.getElementById('afterUploadCommand').value = message.config.afterUploadCommand;
             document.getElementById('telegramEnabled').checked = message.config.telegramEnabled;
             document.getElementById('telegramUpload').checked = message.config.telegramUpload;
-            document.getElementById('telegramBotToken').value = message.config.telegramBotToken;
+            const tokenEl = document.getElementById('telegramBotToken');
+            tokenEl.value = '';
+            tokenEl.setAttribute('placeholder', message.config.telegramBotTokenSaved ? '已保存' : '');
             document.getElementById('telegramChatId').value = message.config.telegramChatId;
 
             // Env
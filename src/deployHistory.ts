@@ -0,0 +1,345 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDirectorySize, formatSize } from './publisher';
+import { describeGitInfo, GitInfo } from './buildInfo';
+import { DeployProfile } from './profiles';
+import { SystemdOptions } from './systemd';
+import { ForwardingOutputChannel } from './outputChannel';
+
+export type RunResult = 'success' | 'failed' | 'cancelled';
+
+/**
+ * One step of a run (publish / upload / start for server deploys, compile / upx / package locally)
+ */
+export interface PhaseRecord {
+    name: string;
+    status: RunResult;
+    durationMs: number;
+}
+
+/**
+ * Settings resolved when a run started; redeploy uses them instead of the current configuration
+ */
+export interface RunSettings {
+    upx: { enabled: boolean; level: string };
+    /** Selected profile as read from .vscode/dotnet-deploy.json */
+    profile?: DeployProfile;
+    /** systemd settings after profile and form overrides (server deploys) */
+    systemd?: SystemdOptions;
+}
+
+/**
+ * A recorded publish or deploy run
+ */
+export interface DeployRecord {
+    id: string;
+    /** ISO timestamp */
+    startedAt: string;
+    durationMs: number;
+    projectName: string;
+    profileName?: string;
+    target: 'server' | 'local';
+    host?: string;
+    runtime: string;
+    /** Publish options from the sidebar plus the UPX settings in effect */
+    options: Record<string, unknown>;
+    /** Source state captured before publishing */
+    git?: GitInfo;
+    /** Stamped version, e.g. 1.2.3 (build 42) */
+    version?: string;
+    phases: PhaseRecord[];
+    result: RunResult;
+    error?: string;
+    /** Size of the publish output in bytes */
+    outputSize?: number;
+    /** Sidebar deploy message without the password, replayed by redeploy */
+    request: Record<string, unknown>;
+    /** Missing in records written by older versions */
+    settings?: RunSettings;
+}
+
+const HISTORY_DIR = 'history';
+const INDEX_FILE = 'index.json';
+const DEFAULT_MAX_ENTRIES = 50;
+/** Form fields that are publish options (the rest is server and UI state) */
+const OPTION_KEYS = [
+    'selfContained', 'singleFile', 'disableSymbols', 'publishAot', 'stripSymbols', 'invariantGlobalization',
+    'incrementalUpload', 'mirror', 'atomicRelease', 'systemdEnabled'
+];
+
+/**
+ * Copy of a profile without SSH passwords, which must not end up in the history file
+ */
+function withoutPasswords(profile: DeployProfile): DeployProfile {
+    if (!profile.server) {
+        return profile;
+    }
+    const { password, ...server } = profile.server;
+    return {
+        ...profile,
+        server: {
+            ...server,
+            hosts: server.hosts?.map(host => {
+                if (typeof host === 'string') {
+                    return host;
+                }
+                const { password: hostPassword, ...rest } = host;
+                return rest;
+            }),
+            jumpHosts: server.jumpHosts?.map(({ password: hopPassword, ...hop }) => hop)
+        }
+    };
+}
+
+/**
+ * Output channel that also keeps what is written while a run is being recorded
+ */
+export class RecordingOutputChannel extends ForwardingOutputChannel {
+    private _buffer: string[] | undefined;
+
+    public startRecording() {
+        this._buffer = [];
+    }
+
+    /**
+     * Stop recording and return everything written since startRecording()
+     */
+    public stopRecording(): string {
+        const log = this._buffer?.join('') || '';
+        this._buffer = undefined;
+        return log;
+    }
+
+    public append(value: string) {
+        this._buffer?.push(value);
+        this._channel.append(value);
+    }
+
+    public appendLine(value: string) {
+        this._buffer?.push(value + '\n');
+        this._channel.appendLine(value);
+    }
+
+    public replace(value: string) {
+        this._buffer?.push(value);
+        this._channel.replace(value);
+    }
+
+    // clear() 继承自基类，只清空面板，已记录的日志保留
+
+    // 记录器持有扩展的输出通道，随扩展一起释放
+    public dispose() {
+        this._channel.dispose();
+    }
+}
+
+/**
+ * Tracks a running deploy from the messages the sidebar posts to its webview
+ * (status / localStatus for phases, success / error / cancelled for the outcome)
+ */
+export class DeployRun {
+    public readonly record: DeployRecord;
+    /** Publish output, measured when the run is finished */
+    public outputPath?: string;
+    private _phaseStarted = Date.now();
+    private _phaseOpen = false;
+    private readonly _started = Date.now();
+
+    constructor(request: Record<string, any>, settings: RunSettings) {
+        const { password, command, ...replay } = request;
+        const options: Record<string, unknown> = {};
+        for (const key of OPTION_KEYS) {
+            if (key in request) {
+                options[key] = request[key];
+            }
+        }
+        if (settings.upx.enabled) {
+            options.upx = settings.upx.level;
+        }
+
+        const now = new Date();
+        this.record = {
+            id: now.getTime().toString(36),
+            startedAt: now.toISOString(),
+            durationMs: 0,
+            projectName: request.projectName,
+            profileName: request.profileName || undefined,
+            target: request.deployTarget === 'local' ? 'local' : 'server',
+            host: request.deployTarget === 'local' ? undefined : request.host,
+            runtime: request.runtime,
+            options,
+            phases: [],
+            result: 'failed',
+            request: replay,
+            settings: { ...settings, profile: settings.profile && withoutPasswords(settings.profile) }
+        };
+    }
+
+    public handleMessage(message: { command: string; phase?: string; message?: string }) {
+        switch (message.command) {
+            case 'status':
+                // 本地模式的阶段来自 localStatus (编译 → 压缩 → 打包)
+                if (this.record.target === 'server' && message.phase) {
+                    this._enterPhase(message.phase);
+                }
+                break;
+            case 'localStatus':
+                if (message.phase) {
+                    this._enterPhase(message.phase);
+                }
+                break;
+            case 'success':
+                this.record.result = 'success';
+                this.record.error = undefined;
+                break;
+            case 'error':
+                this.record.result = 'failed';
+                this.record.error = message.message;
+                break;
+            case 'cancelled':
+                this.record.result = 'cancelled';
+                break;
+        }
+    }
+
+    /**
+     * Mark the current phase successful and start the next one
+     */
+    private _enterPhase(name: string) {
+        const current = this.record.phases[this.record.phases.length - 1];
+        if (current?.name === name) {
+            return;
+        }
+        this._endPhase('success');
+        this.record.phases.push({ name, status: 'failed', durationMs: 0 });
+        this._phaseStarted = Date.now();
+        this._phaseOpen = true;
+    }
+
+    private _endPhase(status: RunResult) {
+        const current = this.record.phases[this.record.phases.length - 1];
+        if (current && this._phaseOpen) {
+            current.status = status;
+            current.durationMs = Date.now() - this._phaseStarted;
+            this._phaseOpen = false;
+        }
+    }
+
+    public finish(): DeployRecord {
+        this._endPhase(this.record.result);
+        this.record.durationMs = Date.now() - this._started;
+        if (this.outputPath && fs.existsSync(this.outputPath)) {
+            try {
+                this.record.outputSize = getDirectorySize(this.outputPath);
+            } catch {
+                // 发布目录可能正被清理
+            }
+        }
+        return this.record;
+    }
+}
+
+/**
+ * Deploy runs and their logs, stored in the workspace storage folder
+ */
+export class DeployHistory {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+    private readonly _dir: string;
+
+    constructor(storageUri: vscode.Uri) {
+        this._dir = path.join(storageUri.fsPath, HISTORY_DIR);
+    }
+
+    private get _indexPath(): string {
+        return path.join(this._dir, INDEX_FILE);
+    }
+
+    public getLogPath(id: string): string {
+        return path.join(this._dir, `${id}.log`);
+    }
+
+    /**
+     * All records, newest first
+     */
+    public list(): DeployRecord[] {
+        if (!fs.existsSync(this._indexPath)) {
+            return [];
+        }
+        try {
+            return JSON.parse(fs.readFileSync(this._indexPath, 'utf-8'));
+        } catch {
+            return [];
+        }
+    }
+
+    public get(id: string): DeployRecord | undefined {
+        return this.list().find(record => record.id === id);
+    }
+
+    private _write(records: DeployRecord[]) {
+        fs.mkdirSync(this._dir, { recursive: true });
+        fs.writeFileSync(this._indexPath, JSON.stringify(records, null, 2), 'utf-8');
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Store a finished run; the oldest runs beyond history.maxEntries are removed with their logs
+     */
+    public add(record: DeployRecord, log: string) {
+        fs.mkdirSync(this._dir, { recursive: true });
+        fs.writeFileSync(this.getLogPath(record.id), log, 'utf-8');
+
+        const maxEntries = vscode.workspace.getConfiguration('dotnetDeploy').get<number>('history.maxEntries', DEFAULT_MAX_ENTRIES);
+        const records = [record, ...this.list()];
+        for (const removed of records.splice(Math.max(1, maxEntries))) {
+            fs.rmSync(this.getLogPath(removed.id), { force: true });
+        }
+        this._write(records);
+    }
+
+    public delete(id: string) {
+        fs.rmSync(this.getLogPath(id), { force: true });
+        this._write(this.list().filter(record => record.id !== id));
+    }
+
+    public clear() {
+        fs.rmSync(this._dir, { recursive: true, force: true });
+        this._onDidChange.fire();
+    }
+
+    public dispose() {
+        this._onDidChange.dispose();
+    }
+}
+
+export function formatDuration(ms: number): string {
+    return ms >= 60000 ? `${Math.floor(ms / 60000)}m ${Math.round(ms % 60000 / 1000)}s` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Plain-text summary of a run, used for tooltips and when comparing two runs
+ */
+export function formatRecord(record: DeployRecord): string {
+    const lines = [
+        `Run:      ${record.id}`,
+        `Started:  ${new Date(record.startedAt).toLocaleString()}`,
+        `Result:   ${record.result}${record.error ? ` (${record.error})` : ''}`,
+        `Duration: ${formatDuration(record.durationMs)}`,
+        `Project:  ${record.projectName}`,
+        `Target:   ${record.target === 'local' ? 'local' : record.host}`,
+        `Profile:  ${record.profileName || '-'}`,
+        `Runtime:  ${record.runtime}`,
+        `Version:  ${record.version || '-'}`,
+        `Source:   ${record.git ? `${describeGitInfo(record.git)} ${record.git.commit}` : '-'}`,
+        `Output:   ${record.outputSize !== undefined ? formatSize(record.outputSize) : '-'}`,
+        '',
+        'Options:',
+        ...Object.entries(record.options).map(([key, value]) => `  ${key}: ${value}`),
+        '',
+        'Phases:',
+        ...record.phases.map(phase => `  ${phase.name}: ${phase.status} (${formatDuration(phase.durationMs)})`)
+    ];
+    return lines.join('\n') + '\n';
+}
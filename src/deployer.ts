@@ -4,305 +4,1746 @@ import * as path from 'path';
 import * as os from 'os';
 import * as https from 'https';
 import * as crypto from 'crypto';
+import { spawn } from 'child_process';
 import Client from 'ssh2-sftp-client';
-import { Client as SSHClient } from 'ssh2';
+import { Client as SSHClient, utils as sshUtils } from 'ssh2';
+import { Duplex, Transform, pipeline } from 'stream';
+import { verifyHostKey, confirmHostKey, isKnownHost, getKnownKeyTypes, getHostKeyAlgorithms } from './knownHosts';
+import { resolveSshHost, expandPath } from './sshConfig';
+import { getKeyPassphrase, storeKeyPassphrase, deleteKeyPassphrase } from './secrets';
+import { generateUnitFile, getServiceName, SystemdOptions } from './systemd';
+import { describeGitInfo, GitInfo } from './buildInfo';
+import { describeVersion, VersionStamp } from './versioning';
 
-export interface DeployConfig {
+/**
+ * Connection settings for a single SSH host (deploy target or jump host)
+ */
+export interface SshEndpoint {
     host: string;
     port: number;
     username: string;
-    authType: 'key' | 'password';
+    authType: 'key' | 'password' | 'agent';
     privateKeyPath?: string;
     password?: string;
+}
+
+export interface DeployConfig extends SshEndpoint {
     remotePath: string;
     afterUploadCommand?: string;
     telegramEnabled?: boolean;
     telegramUpload?: boolean;
     telegramBotToken?: string;
     telegramChatId?: string;
+    deferSuccessNotification?: boolean; // 成功通知由调用方在启动命令和健康检查之后发送
     incrementalUpload?: boolean;  // 增量上传：只上传有变化的文件
+    uploadStrategy?: 'files' | 'archive'; // archive: 打包为 tar.gz 一次上传后在服务器解压
+    uploadConcurrency?: number;   // 同时上传的文件数
+    uploadRetries?: number;       // 连接中断或上传失败后的重试次数 (自动重连，大文件断点续传)
+    retryDelaySeconds?: number;   // 首次重试前的等待时间，之后每次翻倍
+    connectTimeoutSeconds?: number; // SSH 握手超时
+    idleTimeoutSeconds?: number;  // 服务器无响应超过该时间视为断线
+    mirror?: boolean;             // 镜像模式：删除本地已不存在的远程文件
+    protectedPaths?: string[];    // 镜像模式下保留的远程文件 (glob)
+    atomicRelease?: boolean;      // 原子发布：上传到 releases/<id> 后切换 current 软链接
+    keepReleases?: number;        // 原子发布模式下保留的历史版本数
+    useSshConfig?: boolean;       // 从 ~/.ssh/config 解析 Host 别名 (默认 true)
+    sshAlias?: string;            // 解析前的 Host 别名 (由 resolveDeployConfig 填充)
+    proxyJump?: string;           // 从 ~/.ssh/config 解析出的 ProxyJump
+    jumpHosts?: SshEndpoint[];    // 跳板机链 (按顺序连接，优先于 proxyJump)
+    systemd?: SystemdOptions;     // 启用时用生成的 systemd 服务替代 afterUploadCommand
+    appConfig?: RemoteConfigFiles; // 服务器专属配置：.env 和 appsettings.{Environment}.json
+    gitInfo?: GitInfo;            // 发布时的源码版本 (写入 Telegram 通知)
+    version?: VersionStamp;       // 发布时的程序集版本号 (写入 Telegram 通知)
+}
+
+/**
+ * Server specific configuration written by deploy().
+ * Rendered in memory so secrets never end up in the local publish output.
+ */
+export interface RemoteConfigFiles {
+    /** Content of the .env EnvironmentFile in the app directory (mode 0600, shared by all releases) */
+    envFile?: string;
+    /** appsettings.{Environment}.json written next to the executable */
+    appsettings?: { fileName: string; content: string };
+}
+
+export interface DeployResult {
+    success: boolean;
+    error?: string;
+    /** Release id the `current` symlink points to after the operation (atomic mode only) */
+    releaseId?: string;
+}
+
+/**
+ * Byte-level upload progress reported while files are transferred
+ */
+export interface UploadProgress {
+    transferredBytes: number;
+    /** 0 while unknown: an archive upload only knows its compressed size once tar has finished */
+    totalBytes: number;
+    filesDone: number;
+    totalFiles: number;
+    bytesPerSecond: number;
+    etaSeconds?: number;
+}
+
+export interface RemoteCommandResult {
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * An open SSH connection to the deploy target, tunnelled through any jump hosts
+ */
+export interface RemoteSession {
+    exec(command: string): Promise<RemoteCommandResult>;
+    /** Run a long-lived command, streaming its output; resolves with the exit code */
+    execStream(command: string, onData: (text: string) => void): Promise<number>;
+    /** Open a TCP connection from the server to host:port */
+    forwardOut(host: string, port: number): Promise<Duplex>;
+    close(): void;
+}
+
+export interface DeployManifest {
+    version: 1;
+    algorithm: 'sha256';
+    files: Record<string, string>;
+}
+
+interface JumpChain {
+    clients: SSHClient[];
+    /** Tunnel to the deploy target through the last hop */
+    sock?: Duplex;
+}
+
+const RELEASES_DIR = 'releases';
+/** Written next to the deployed files: relative path -> SHA-256 */
+const MANIFEST_FILE = '.deploy-manifest.json';
+const CURRENT_LINK = 'current';
+const ENV_FILE = '.env';
+const DEFAULT_KEEP_RELEASES = 5;
+const DEFAULT_UPLOAD_CONCURRENCY = 4;
+const PROGRESS_INTERVAL_MS = 250;
+const DEFAULT_UPLOAD_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_SECONDS = 2;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+const DEFAULT_CONNECT_TIMEOUT_SECONDS = 20;
+const DEFAULT_IDLE_TIMEOUT_SECONDS = 30;
+const KEEPALIVE_INTERVAL_MS = 5000;
+/** Keys ssh tries when a host has no IdentityFile */
+const DEFAULT_IDENTITY_FILES = ['~/.ssh/id_ed25519', '~/.ssh/id_ecdsa', '~/.ssh/id_rsa'];
+/** Files at least this large are written in order so a retry can append from the remote size */
+const RESUME_MIN_BYTES = 4 * 1024 * 1024;
+/** Large files are written to <name>.partial and renamed when complete, so a retry never appends to an old version */
+const PARTIAL_SUFFIX = '.partial';
+/** Buffered bytes per ordered upload; lets ssh2 pipeline write requests on high-latency links */
+const STREAM_BUFFER_BYTES = 4 * 1024 * 1024;
+/**
+ * Read chunk of an ordered upload. Must fit in one SFTP write packet (ssh2 allows ~31 KB for non-OpenSSH servers):
+ * larger chunks are split and the remainder is only sent after the first part is acknowledged, breaking the order.
+ */
+const STREAM_CHUNK_BYTES = 31 * 1024;
+
+/**
+ * Resolve a Host alias in the host field against ~/.ssh/config.
+ * Values from the matching Host block replace host, port, username and key path.
+ */
+export function resolveDeployConfig(config: DeployConfig, outputChannel: vscode.OutputChannel): DeployConfig {
+    if (config.useSshConfig === false || config.sshAlias) {
+        return config;
+    }
+
+    let entry;
+    try {
+        entry = resolveSshHost(config.host);
+    } catch (err: any) {
+        outputChannel.appendLine(`[Deployer] ⚠️ Failed to read ssh config: ${err.message}`);
+        return config;
+    }
+    if (!entry) {
+        return config;
+    }
+
+    const resolved: DeployConfig = {
+        ...config,
+        sshAlias: config.host,
+        host: entry.hostName || config.host,
+        port: entry.port || config.port,
+        username: entry.user || config.username,
+        proxyJump: entry.proxyJump
+    };
+
+    if (resolved.authType === 'key' && entry.identityFiles.length > 0) {
+        resolved.privateKeyPath = entry.identityFiles.find(file => fs.existsSync(file)) || entry.identityFiles[0];
+    }
+
+    outputChannel.appendLine(`[Deployer] Resolved ssh config alias ${config.host} -> ${resolved.username}@${resolved.host}:${resolved.port}`);
+    return resolved;
+}
+
+/**
+ * Locate the running ssh-agent: SSH_AUTH_SOCK, or Pageant on Windows
+ */
+function getAgentSocket(): string {
+    if (process.env.SSH_AUTH_SOCK) {
+        return process.env.SSH_AUTH_SOCK;
+    }
+    if (process.platform === 'win32') {
+        return 'pageant';
+    }
+    throw new Error('SSH_AUTH_SOCK is not set. Start ssh-agent and add your key with ssh-add');
+}
+
+/**
+ * Read a private key, asking for (and caching) the passphrase when the key is encrypted
+ */
+async function loadPrivateKey(
+    keyPath: string,
+    outputChannel: vscode.OutputChannel
+): Promise<{ privateKey: string; passphrase?: string }> {
+    const privateKey = fs.readFileSync(keyPath, 'utf-8');
+    const parsed = sshUtils.parseKey(privateKey);
+    if (!(parsed instanceof Error)) {
+        return { privateKey };
+    }
+    if (!/passphrase/i.test(parsed.message)) {
+        throw new Error(`Unable to parse private key ${keyPath}: ${parsed.message}`);
+    }
+
+    let passphrase = await getKeyPassphrase(keyPath);
+    for (let attempt = 0; attempt < 3; attempt++) {
+        if (passphrase === undefined) {
+            passphrase = await vscode.window.showInputBox({
+                prompt: `请输入私钥 ${keyPath} 的密码 (passphrase)`,
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (passphrase === undefined) {
+                throw new Error(`Passphrase for ${keyPath} was not provided`);
+            }
+        }
+
+        if (!(sshUtils.parseKey(privateKey, passphrase) instanceof Error)) {
+            await storeKeyPassphrase(keyPath, passphrase);
+            return { privateKey, passphrase };
+        }
+
+        outputChannel.appendLine(`[Deployer] ✗ Incorrect passphrase for ${keyPath}`);
+        await deleteKeyPassphrase(keyPath);
+        passphrase = undefined;
+    }
+
+    throw new Error(`Incorrect passphrase for private key ${keyPath}`);
+}
+
+/**
+ * Handshake timeout and keepalive of a connection.
+ * A server that misses keepalives for the idle timeout is treated as gone, failing transfers in progress.
+ */
+function getTimeoutOptions(config: DeployConfig): { readyTimeout: number; keepaliveInterval: number; keepaliveCountMax: number } {
+    const idleTimeout = (config.idleTimeoutSeconds ?? DEFAULT_IDLE_TIMEOUT_SECONDS) * 1000;
+    return {
+        readyTimeout: (config.connectTimeoutSeconds ?? DEFAULT_CONNECT_TIMEOUT_SECONDS) * 1000,
+        keepaliveInterval: KEEPALIVE_INTERVAL_MS,
+        keepaliveCountMax: Math.max(1, Math.ceil(idleTimeout / KEEPALIVE_INTERVAL_MS))
+    };
+}
+
+/**
+ * Build ssh2 connect options for an SSH endpoint
+ */
+async function buildConnectConfig(config: SshEndpoint, outputChannel: vscode.OutputChannel): Promise<any> {
+    const connectConfig: any = {
+        host: config.host,
+        port: config.port,
+        username: config.username,
+        // 校验 ~/.ssh/known_hosts；首次连接的确认已在握手前由 trustHostKey() 完成
+        hostVerifier: (key: Buffer) => verifyHostKey(config.host, config.port, key, outputChannel)
+    };
+
+    // 只协商已记录的密钥类型，与 OpenSSH 的行为一致
+    const hostKeyAlgorithms = getHostKeyAlgorithms(getKnownKeyTypes(config.host, config.port));
+    if (hostKeyAlgorithms.length > 0) {
+        connectConfig.algorithms = { serverHostKey: hostKeyAlgorithms };
+    }
+
+    if (config.authType === 'password') {
+        connectConfig.password = config.password;
+    } else if (config.authType === 'agent') {
+        connectConfig.agent = getAgentSocket();
+    } else {
+        const keyPath = expandPath(config.privateKeyPath || '');
+        if (!fs.existsSync(keyPath)) {
+            throw new Error(`Private key not found: ${keyPath}`);
+        }
+        const { privateKey, passphrase } = await loadPrivateKey(keyPath, outputChannel);
+        connectConfig.privateKey = privateKey;
+        connectConfig.passphrase = passphrase;
+    }
+
+    return connectConfig;
+}
+
+/**
+ * Authentication of a ProxyJump hop: its own readable IdentityFile, else the ssh-agent, else a default identity like ssh uses
+ */
+function getHopAuth(identityFiles: string[]): Pick<SshEndpoint, 'authType' | 'privateKeyPath'> {
+    const identityFile = identityFiles.find(file => fs.existsSync(file));
+    if (identityFile) {
+        return { authType: 'key', privateKeyPath: identityFile };
+    }
+    if (process.env.SSH_AUTH_SOCK || process.platform === 'win32') {
+        return { authType: 'agent' };
+    }
+
+    const defaultIdentity = DEFAULT_IDENTITY_FILES.map(expandPath).find(file => fs.existsSync(file));
+    return defaultIdentity ? { authType: 'key', privateKeyPath: defaultIdentity } : { authType: 'agent' };
+}
+
+/**
+ * Expand a ProxyJump value into hops. Like ssh, the ProxyJump of the first hop is followed, so its own jump hosts come first.
+ */
+export function resolveProxyJump(proxyJump: string, username: string, visited: string[] = []): SshEndpoint[] {
+    const hops: SshEndpoint[] = [];
+
+    // ProxyJump 格式: [user@]host[:port][,[user@]host[:port]...]
+    proxyJump.split(',').forEach((spec, index) => {
+        const match = spec.trim().match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+        const alias = match ? match[2].replace(/^\[|\]$/g, '') : spec.trim();
+        if (visited.includes(alias.toLowerCase())) {
+            throw new Error(`ProxyJump loop through ${alias}`);
+        }
+        const entry = resolveSshHost(alias);
+
+        if (index === 0 && entry?.proxyJump) {
+            hops.push(...resolveProxyJump(entry.proxyJump, username, [...visited, alias.toLowerCase()]));
+        }
+        hops.push({
+            host: entry?.hostName || alias,
+            port: (match && match[3] ? parseInt(match[3], 10) : undefined) || entry?.port || 22,
+            username: (match && match[1]) || entry?.user || username,
+            ...getHopAuth(entry?.identityFiles || [])
+        });
+    });
+
+    return hops;
+}
+
+/**
+ * Jump hosts to tunnel through: explicit `jumpHosts` first, otherwise the ssh config ProxyJump
+ */
+function getJumpHosts(config: DeployConfig): SshEndpoint[] {
+    if (config.jumpHosts && config.jumpHosts.length > 0) {
+        return config.jumpHosts.map(hop => ({ ...hop, port: hop.port || 22, authType: hop.authType || 'key' }));
+    }
+    if (!config.proxyJump) {
+        return [];
+    }
+    return resolveProxyJump(config.proxyJump, config.username, [(config.sshAlias || config.host).toLowerCase()]);
+}
+
+/**
+ * Wait for an ssh2 client to become ready
+ */
+function connectClient(client: SSHClient, connectConfig: any): Promise<void> {
+    return new Promise((resolve, reject) => {
+        client.once('ready', () => resolve());
+        client.once('error', reject);
+        client.connect(connectConfig);
+    });
+}
+
+/**
+ * Open a direct-tcpip channel from a connected client to the next host
+ */
+function forwardOut(client: SSHClient, host: string, port: number): Promise<Duplex> {
+    return new Promise((resolve, reject) => {
+        client.forwardOut('127.0.0.1', 0, host, port, (err, stream) => {
+            if (err) {
+                reject(err);
+            } else {
+                resolve(stream);
+            }
+        });
+    });
+}
+
+/**
+ * Read a server's host key with a handshake that is rejected before authentication
+ */
+function fetchHostKey(endpoint: SshEndpoint, config: DeployConfig, sock?: Duplex): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const client = new SSHClient();
+        let hostKey: Buffer | undefined;
+        client.once('error', err => {
+            client.end();
+            if (hostKey) {
+                resolve(hostKey);
+            } else {
+                reject(err);
+            }
+        });
+        client.connect({
+            host: endpoint.host,
+            port: endpoint.port,
+            username: endpoint.username,
+            sock,
+            readyTimeout: getTimeoutOptions(config).readyTimeout,
+            hostVerifier: (key: Buffer) => {
+                hostKey = key;
+                return false;
+            }
+        });
+    });
+}
+
+/**
+ * Ask the user to trust a host that is not in known_hosts yet.
+ * The key is fetched first so the prompt does not run while a handshake timeout is counting.
+ * `via` is the connected hop the host is reached through.
+ */
+async function trustHostKey(endpoint: SshEndpoint, config: DeployConfig, outputChannel: vscode.OutputChannel, via?: SSHClient): Promise<void> {
+    if (isKnownHost(endpoint.host, endpoint.port)) {
+        return;
+    }
+
+    const sock = via ? await forwardOut(via, endpoint.host, endpoint.port) : undefined;
+    const key = await fetchHostKey(endpoint, config, sock);
+    if (!await confirmHostKey(endpoint.host, endpoint.port, key, outputChannel)) {
+        throw new Error(`Host key for ${endpoint.host} was not accepted`);
+    }
+}
+
+/**
+ * Connect through each jump host in turn, tunnelling every hop over the previous one.
+ * Unknown host keys along the way (including the target's) are confirmed before connecting.
+ */
+async function openJumpChain(config: DeployConfig, outputChannel: vscode.OutputChannel): Promise<JumpChain> {
+    const hops = getJumpHosts(config);
+    const chain: JumpChain = { clients: [] };
+
+    try {
+        await trustHostKey(hops.length > 0 ? hops[0] : config, config, outputChannel);
+        for (let i = 0; i < hops.length; i++) {
+            const hop = { ...hops[i] };
+            const next: SshEndpoint = i + 1 < hops.length ? hops[i + 1] : config;
+
+            if (hop.authType === 'password' && !hop.password) {
+                hop.password = await vscode.window.showInputBox({
+                    prompt: `请输入跳板机 ${hop.username}@${hop.host} 的密码`,
+                    password: true,
+                    ignoreFocusOut: true
+                });
+                if (hop.password === undefined) {
+                    throw new Error(`Password for jump host ${hop.host} was not provided`);
+                }
+            }
+
+            outputChannel.appendLine(`[Deployer] Hop ${i + 1}/${hops.length}: connecting to ${hop.username}@${hop.host}:${hop.port} via ${hop.authType}...`);
+            const client = new SSHClient();
+            chain.clients.push(client);
+            await connectClient(client, { ...(await buildConnectConfig(hop, outputChannel)), ...getTimeoutOptions(config), sock: chain.sock });
+
+            await trustHostKey(next, config, outputChannel, client);
+            chain.sock = await forwardOut(client, next.host, next.port);
+            outputChannel.appendLine(`[Deployer] ✓ Hop ${i + 1}/${hops.length}: tunnel ${hop.host} -> ${next.host}:${next.port}`);
+        }
+    } catch (err) {
+        closeJumpChain(chain);
+        throw err;
+    }
+
+    return chain;
+}
+
+/**
+ * Close jump host connections, innermost first
+ */
+function closeJumpChain(chain: JumpChain | undefined): void {
+    if (!chain) {
+        return;
+    }
+    for (const client of [...chain.clients].reverse()) {
+        try {
+            client.end();
+        } catch {
+            // Ignore close errors
+        }
+    }
+}
+
+/**
+ * Abort the current step once the user has cancelled
+ */
+function throwIfCancelled(token: vscode.CancellationToken | undefined): void {
+    if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+    }
+}
+
+/**
+ * Quote a value for safe use in a POSIX shell command
+ */
+export function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Run a command over an established SSH connection and collect its output
+ */
+function execCommand(client: SSHClient, command: string): Promise<RemoteCommandResult> {
+    return new Promise((resolve, reject) => {
+        client.exec(command, (err, stream) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            let stdout = '';
+            let stderr = '';
+
+            stream.on('close', (code: number) => {
+                resolve({ code, stdout, stderr });
+            });
+            stream.on('data', (data: Buffer) => {
+                stdout += data.toString();
+            });
+            stream.stderr.on('data', (data: Buffer) => {
+                stderr += data.toString();
+            });
+        });
+    });
+}
+
+/**
+ * Run a long-lived command and stream its output.
+ * A pty is requested so the remote process is hung up when the connection closes.
+ */
+function execStream(client: SSHClient, command: string, onData: (text: string) => void): Promise<number> {
+    return new Promise((resolve, reject) => {
+        client.exec(command, { pty: true }, (err, stream) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            stream.on('close', (code: number) => resolve(code));
+            stream.on('data', (data: Buffer) => onData(data.toString()));
+            stream.stderr.on('data', (data: Buffer) => onData(data.toString()));
+        });
+    });
+}
+
+/**
+ * Connect to the deploy target for running commands outside of an upload
+ */
+export async function openRemoteSession(config: DeployConfig, outputChannel: vscode.OutputChannel): Promise<RemoteSession> {
+    config = resolveDeployConfig(config, outputChannel);
+
+    const connectConfig = await buildConnectConfig(config, outputChannel);
+    const chain = await openJumpChain(config, outputChannel);
+    const client = new SSHClient();
+
+    try {
+        await connectClient(client, { ...connectConfig, ...getTimeoutOptions(config), sock: chain.sock });
+    } catch (err) {
+        closeJumpChain(chain);
+        throw err;
+    }
+    // 连接建立后的错误 (如网络中断) 会使进行中的命令结束，这里只记录
+    client.on('error', err => outputChannel.appendLine(`[Deployer] SSH Error: ${err.message}`));
+
+    return {
+        exec: command => execCommand(client, command),
+        execStream: (command, onData) => execStream(client, command, onData),
+        forwardOut: (host, port) => forwardOut(client, host, port),
+        close: () => {
+            client.end();
+            closeJumpChain(chain);
+        }
+    };
+}
+
+/**
+ * Directory that holds the application on the server.
+ * In atomic release mode this is the `current` symlink inside the app directory.
+ */
+export function getRemoteAppDir(config: Pick<DeployConfig, 'remotePath' | 'atomicRelease'>, assemblyName: string): string {
+    const appDir = path.posix.join(config.remotePath, assemblyName);
+    return config.atomicRelease ? path.posix.join(appDir, CURRENT_LINK) : appDir;
+}
+
+/**
+ * The .env file holding the app's environment variables; outside of `releases` so every release uses it
+ */
+export function getRemoteEnvFilePath(config: Pick<DeployConfig, 'remotePath'>, assemblyName: string): string {
+    return path.posix.join(config.remotePath, assemblyName, ENV_FILE);
+}
+
+/**
+ * Create a sortable release id from a local time, by default now (yyyyMMddHHmmssSSS).
+ * Milliseconds keep two deploys started within the same second from sharing a release directory.
+ */
+export function createReleaseId(now = new Date()): string {
+    const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+    return `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}` +
+        `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}${pad(now.getMilliseconds(), 3)}`;
+}
+
+/**
+ * List release ids on the server, oldest first
+ */
+async function listReleases(client: SSHClient, appDir: string): Promise<string[]> {
+    const releasesDir = path.posix.join(appDir, RELEASES_DIR);
+    const result = await execCommand(client, `ls -1 ${shellQuote(releasesDir)} 2>/dev/null`);
+    return result.stdout
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .sort();
+}
+
+/**
+ * Read the release id the `current` symlink points to
+ */
+async function getCurrentRelease(client: SSHClient, appDir: string): Promise<string | undefined> {
+    const currentLink = path.posix.join(appDir, CURRENT_LINK);
+    const result = await execCommand(client, `readlink ${shellQuote(currentLink)}`);
+    const target = result.stdout.trim();
+    return result.code === 0 && target ? path.posix.basename(target) : undefined;
+}
+
+/**
+ * Point the `current` symlink at the given release.
+ * The link is created under a temporary name and renamed over `current`, so the switch is atomic.
+ */
+async function switchCurrentRelease(client: SSHClient, appDir: string, releaseId: string): Promise<void> {
+    const tmpLink = `${CURRENT_LINK}.tmp-${releaseId}`;
+    const target = path.posix.join(RELEASES_DIR, releaseId);
+    const command = `cd ${shellQuote(appDir)} && ln -sfn ${shellQuote(target)} ${shellQuote(tmpLink)} && mv -Tf ${shellQuote(tmpLink)} ${CURRENT_LINK}`;
+    const result = await execCommand(client, command);
+    if (result.code !== 0) {
+        throw new Error(`Failed to switch current release: ${result.stderr.trim() || `exit code ${result.code}`}`);
+    }
+}
+
+/**
+ * Remove the oldest releases beyond the configured limit, never touching the active one
+ */
+async function pruneReleases(
+    client: SSHClient,
+    appDir: string,
+    keep: number,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    const releases = await listReleases(client, appDir);
+    if (releases.length <= keep) {
+        return;
+    }
+
+    const current = await getCurrentRelease(client, appDir);
+    const stale = releases.slice(0, releases.length - keep).filter(id => id !== current);
+
+    for (const id of stale) {
+        const releaseDir = path.posix.join(appDir, RELEASES_DIR, id);
+        const result = await execCommand(client, `rm -rf ${shellQuote(releaseDir)}`);
+        if (result.code === 0) {
+            outputChannel.appendLine(`[Deployer] Removed old release: ${id}`);
+        } else {
+            outputChannel.appendLine(`[Deployer] ⚠️ Failed to remove old release ${id}: ${result.stderr.trim()}`);
+        }
+    }
+}
+
+/**
+ * Wait before a retry; returns early when the deploy is cancelled
+ */
+function sleep(ms: number, token?: vscode.CancellationToken): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms);
+        const cancelListener = token?.onCancellationRequested(done);
+        function done() {
+            clearTimeout(timer);
+            cancelListener?.dispose();
+            resolve();
+        }
+    });
+}
+
+/**
+ * Errors that a retry cannot fix: rejected credentials or host key, no host key of a recorded type, missing key, a dismissed prompt
+ */
+function isPermanentError(err: any): boolean {
+    return err instanceof vscode.CancellationError ||
+        /authentication methods failed|Host denied|no matching host key format|Private key not found|passphrase|was not provided|was not accepted/i.test(err?.message || '');
+}
+
+const TRANSIENT_ERROR_CODES = new Set([
+    'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'ENETDOWN', 'EAI_AGAIN'
+]);
+
+/**
+ * Connection and timeout errors, the only ones a retry can fix.
+ * Anything else (permission denied, disk full, a failed check) fails the same way again.
+ */
+function isTransientError(err: any): boolean {
+    return TRANSIENT_ERROR_CODES.has(err?.code) ||
+        /Connection lost|timed? ?out|No response from server|socket hang up|not connected|No SFTP connection|ECONNRESET|EPIPE/i
+            .test(err?.message || '');
+}
+
+/**
+ * ssh2 client behind an ssh2-sftp-client instance, used to run commands over the same connection.
+ * The field is not part of the library's typed API, so fail loudly if an update removes it.
+ */
+function getSshClient(sftp: Client): SSHClient {
+    const client = (sftp as any).client;
+    if (typeof client?.exec !== 'function') {
+        throw new Error('ssh2-sftp-client does not expose its ssh2 client');
+    }
+    return client;
+}
+
+/**
+ * SFTP connection of one deploy (including its jump hosts).
+ * When the link drops the connection is opened again, so failed steps can be retried.
+ */
+class SftpConnection {
+    private _sftp = new Client();
+    private _chain: JumpChain | undefined;
+    private _connectConfig: any;
+    private _reconnecting: Promise<void> | undefined;
+    /** Rejects when the current connection closes */
+    private _lost: Promise<never> = new Promise(() => undefined);
+    private _hasConnected = false;
+    private _connected = false;
+    private _aborted = false;
+
+    constructor(
+        private readonly _config: DeployConfig,
+        private readonly _outputChannel: vscode.OutputChannel
+    ) { }
+
+    public get sftp(): Client {
+        return this._sftp;
+    }
+
+    /** Underlying ssh2 client, for running commands */
+    public get client(): SSHClient {
+        return getSshClient(this._sftp);
+    }
+
+    /** Cleared by the connection's close/end events */
+    public get connected(): boolean {
+        return this._connected;
+    }
+
+    public async connect(): Promise<void> {
+        const config = this._config;
+        // 只构建一次：重连时不再重复读取私钥或提示输入密码
+        this._connectConfig = this._connectConfig || await buildConnectConfig(config, this._outputChannel);
+        this._chain = await openJumpChain(config, this._outputChannel);
+        if (this._aborted) {
+            closeJumpChain(this._chain);
+            throw new vscode.CancellationError();
+        }
+
+        this._outputChannel.appendLine(`[Deployer] Connecting to ${config.host}:${config.port} via ${config.authType}...`);
+        // 重试由 retry() 负责，关闭 ssh2-sftp-client 自带的连接重试
+        await this._sftp.connect({ ...this._connectConfig, ...getTimeoutOptions(config), retries: 0, sock: this._chain.sock });
+        this._hasConnected = true;
+        this._connected = true;
+
+        // ssh2 的写入流在连接断开后可能既不报错也不关闭，用连接的 close/end 事件结束进行中的操作
+        const sftp = this._sftp;
+        this._lost = new Promise<never>((_, reject) => {
+            const onLost = () => {
+                // 忽略已被替换的旧连接上迟到的事件
+                if (this._sftp === sftp) {
+                    this._connected = false;
+                }
+                reject(new Error('Connection lost'));
+            };
+            sftp.on('close', onLost);
+            sftp.on('end', onLost);
+        });
+        this._lost.catch(() => undefined);
+        this._outputChannel.appendLine(`[Deployer] ✓ Connected`);
+    }
+
+    /**
+     * First connection, retried like any other step
+     */
+    public open(token?: vscode.CancellationToken): Promise<void> {
+        return this.retry('Connect', async () => undefined, token);
+    }
+
+    /**
+     * Drop the broken connection and connect again; workers failing at the same time share one attempt
+     */
+    private _reconnect(): Promise<void> {
+        if (!this._reconnecting) {
+            this._reconnecting = (async () => {
+                if (this._hasConnected) {
+                    this._outputChannel.appendLine(`[Deployer] Reconnecting to ${this._config.host}...`);
+                }
+                this._close();
+                this._sftp = new Client();
+                await this.connect();
+            })().finally(() => this._reconnecting = undefined);
+        }
+        return this._reconnecting;
+    }
+
+    /**
+     * Run an operation, reconnecting and retrying with exponential backoff when it fails.
+     * The operation must be safe to repeat; `attempt` starts at 0.
+     */
+    public async retry<T>(
+        label: string,
+        operation: (sftp: Client, attempt: number) => Promise<T>,
+        token?: vscode.CancellationToken
+    ): Promise<T> {
+        const retries = Math.max(0, this._config.uploadRetries ?? DEFAULT_UPLOAD_RETRIES);
+        const baseDelay = (this._config.retryDelaySeconds ?? DEFAULT_RETRY_DELAY_SECONDS) * 1000;
+
+        for (let attempt = 0; ; attempt++) {
+            throwIfCancelled(token);
+            try {
+                if (!this.connected) {
+                    await this._reconnect();
+                }
+                return await Promise.race([operation(this._sftp, attempt), this._lost]);
+            } catch (err: any) {
+                // 连接已断开的失败都值得重试，连接正常时只重试超时类错误
+                const retryable = !isPermanentError(err) && (!this.connected || isTransientError(err));
+                if (attempt >= retries || this._aborted || token?.isCancellationRequested || !retryable) {
+                    throw err;
+                }
+                const delay = Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+                this._outputChannel.appendLine(`[Deployer] ⚠️ ${label} failed: ${err.message}. ` +
+                    `Retry ${attempt + 1}/${retries} in ${(delay / 1000).toFixed(0)}s...`);
+                await sleep(delay, token);
+            }
+        }
+    }
+
+    private _close() {
+        this._connected = false;
+        try {
+            this.client.end();
+        } catch {
+            // Ignore close errors
+        }
+        closeJumpChain(this._chain);
+    }
+
+    /**
+     * Close after a cancel; operations in progress fail and are not retried
+     */
+    public abort() {
+        this._aborted = true;
+        this._close();
+    }
+
+    public async end() {
+        try {
+            await this._sftp.end();
+        } catch {
+            // Ignore close errors
+        }
+        closeJumpChain(this._chain);
+    }
+}
+
+/**
+ * Deploy published files to remote server via SFTP.
+ * Dropped connections are re-opened and the failed step retried (see uploadRetries).
+ * Cancelling the token closes the connection; in atomic release mode `current` is left untouched.
+ */
+export async function deploy(
+    config: DeployConfig,
+    localPath: string,
+    assemblyName: string,
+    outputChannel: vscode.OutputChannel,
+    onProgress?: (progress: UploadProgress) => void,
+    token?: vscode.CancellationToken
+): Promise<DeployResult> {
+    let releaseId: string | undefined;
+    config = resolveDeployConfig(config, outputChannel);
+    const connection = new SftpConnection(config, outputChannel);
+
+    // 断开连接后，进行中的传输和远程命令都会以错误结束
+    const cancelListener = token?.onCancellationRequested(() => {
+        outputChannel.appendLine(`[Deployer] Cancelling, closing SSH connection...`);
+        connection.abort();
+    });
+
+    try {
+        await connection.open(token);
+        throwIfCancelled(token);
+
+        // Create remote directory
+        const appDir = path.posix.join(config.remotePath, assemblyName);
+        let remoteDir = appDir;
+        if (config.atomicRelease) {
+            releaseId = createReleaseId();
+            remoteDir = path.posix.join(appDir, RELEASES_DIR, releaseId);
+            outputChannel.appendLine(`[Deployer] Atomic release: ${releaseId}`);
+        }
+
+        await connection.retry('Create remote directory', async sftp => {
+            try {
+                await sftp.mkdir(remoteDir, true);
+                outputChannel.appendLine(`[Deployer] ✓ Created remote directory: ${remoteDir}`);
+            } catch (err: any) {
+                // Directory might already exist; a dropped connection is retried
+                if (!connection.connected) {
+                    throw err;
+                }
+                if (!err.message.includes('already exists')) {
+                    outputChannel.appendLine(`[Deployer] Directory exists or created: ${remoteDir}`);
+                }
+            }
+        }, token);
+
+        // 原子发布 + 增量上传：先复制当前版本作为新版本的基础，再只上传变化的文件
+        if (config.atomicRelease && config.incrementalUpload) {
+            const currentDir = path.posix.join(appDir, CURRENT_LINK);
+            const seed = await connection.retry('Seed release', () => execCommand(
+                connection.client,
+                `if [ -d ${shellQuote(currentDir)} ]; then cp -a ${shellQuote(currentDir + '/.')} ${shellQuote(remoteDir + '/')}; fi`
+            ), token);
+            if (seed.code === 0) {
+                outputChannel.appendLine(`[Deployer] ✓ Seeded release from current version`);
+            } else {
+                outputChannel.appendLine(`[Deployer] ⚠️ Failed to seed release from current version: ${seed.stderr.trim()}`);
+            }
+        }
+
+        // Get all files to upload
+        const files = getAllFiles(localPath);
+
+        // 增量上传：下载远程清单，与本地 SHA-256 比较
+        const localManifest = await buildLocalManifest(localPath, files);
+        throwIfCancelled(token);
+        let filesToUpload: string[] = files;
+
+        if (config.incrementalUpload) {
+            outputChannel.appendLine(`[Deployer] Incremental upload enabled, checking for changes...`);
+            const remoteManifest = await connection.retry('Read manifest', async sftp => {
+                const manifest = await readRemoteManifest(sftp, remoteDir);
+                if (!manifest && !connection.connected) {
+                    throw new Error('Connection lost while reading the manifest');
+                }
+                return manifest;
+            }, token);
+
+            if (remoteManifest) {
+                const changed = new Set(getChangedFiles(localManifest, remoteManifest));
+                filesToUpload = files.filter(file => changed.has(toManifestPath(localPath, file)));
+                const skipped = files.length - filesToUpload.length;
+                outputChannel.appendLine(`[Deployer] Incremental: ${filesToUpload.length} files to upload, ${skipped} files unchanged`);
+            } else {
+                outputChannel.appendLine(`[Deployer] No ${MANIFEST_FILE} on server, uploading all files`);
+            }
+        }
+
+        if (filesToUpload.length === 0) {
+            outputChannel.appendLine(`[Deployer] ✓ All files are up to date, nothing to upload`);
+        } else {
+            outputChannel.appendLine(`[Deployer] Uploading ${filesToUpload.length} files...`);
+        }
+
+        let archived = false;
+        if (config.uploadStrategy === 'archive' && filesToUpload.length > 0) {
+            archived = await uploadArchive(connection, localPath, remoteDir, filesToUpload, outputChannel, onProgress, token);
+        }
+        if (!archived) {
+            const concurrency = config.uploadConcurrency || DEFAULT_UPLOAD_CONCURRENCY;
+            await uploadFiles(connection, localPath, remoteDir, filesToUpload, localManifest, concurrency, outputChannel, onProgress, token);
+        }
+        throwIfCancelled(token);
+
+        if (config.mirror) {
+            // 每次重试都会重新列出远程文件，已删除的文件不会重复处理
+            await connection.retry('Mirror', () => mirrorRemoteDir(
+                connection.client, remoteDir, localManifest, config.protectedPaths || [], !config.atomicRelease, outputChannel
+            ), token);
+            throwIfCancelled(token);
+        }
+
+        // Make executable file executable
+        const executablePath = path.posix.join(remoteDir, assemblyName);
+        await connection.retry('chmod', sftp => sftp.chmod(executablePath, 0o755), token);
+        outputChannel.appendLine(`[Deployer] ✓ Set executable permissions on ${assemblyName}`);
+
+        // 镜像模式会删除本地发布目录之外的文件，服务器专属配置在其之后写入
+        const appConfig = config.appConfig;
+        if (appConfig) {
+            await connection.retry('Write app config', sftp => writeRemoteConfig(sftp, appDir, remoteDir, appConfig, outputChannel), token);
+        }
+
+        // 所有文件上传成功后才写入清单，中途失败时下次部署会重新比较
+        const manifestContent = Buffer.from(JSON.stringify(localManifest, null, 2), 'utf-8');
+        await connection.retry('Write manifest', sftp => sftp.put(manifestContent, path.posix.join(remoteDir, MANIFEST_FILE)), token);
+        outputChannel.appendLine(`[Deployer] ✓ Updated ${MANIFEST_FILE} (${files.length} files)`);
+
+        // 上传和授权都成功后才切换 current 软链接
+        throwIfCancelled(token);
+        if (config.atomicRelease && releaseId) {
+            const newRelease = releaseId;
+            await connection.retry('Switch current release', () => switchCurrentRelease(connection.client, appDir, newRelease), token);
+            outputChannel.appendLine(`[Deployer] ✓ Switched ${CURRENT_LINK} -> ${RELEASES_DIR}/${releaseId}`);
+            await connection.retry('Prune releases', () => pruneReleases(
+                connection.client, appDir, config.keepReleases ?? DEFAULT_KEEP_RELEASES, outputChannel
+            ), token);
+        }
+
+        cancelListener?.dispose();
+        await connection.end();
+        outputChannel.appendLine(`[Deployer] ✓ Upload complete`);
+
+        if (!config.deferSuccessNotification) {
+            await sendDeploySuccessNotification(config, localPath, assemblyName, outputChannel, releaseId);
+        }
+
+        return { success: true, releaseId };
+
+    } catch (err: any) {
+        cancelListener?.dispose();
+        if (token?.isCancellationRequested) {
+            outputChannel.appendLine(`[Deployer] ✗ Cancelled`);
+            await connection.end();
+            return { success: false, error: 'Cancelled' };
+        }
+
+        // Send failure notification
+        if (config.telegramEnabled && config.telegramBotToken && config.telegramChatId) {
+            await sendTelegramNotification(
+                config.telegramBotToken,
+                config.telegramChatId,
+                `❌ *Deploy Failed*\n\nProject: \`${assemblyName}\`\nHost: \`${config.host}\`` + describeSource(config) + `\nError: ${err.message}`,
+                outputChannel
+            );
+        }
+        outputChannel.appendLine(`[Deployer] ✗ Error: ${err.message}`);
+        await connection.end();
+        return { success: false, error: err.message };
+    }
+}
+
+/**
+ * Write the .env file (0600, readable by the SSH user and systemd only) and the appsettings override
+ */
+async function writeRemoteConfig(
+    sftp: Client,
+    appDir: string,
+    remoteDir: string,
+    files: RemoteConfigFiles,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    if (files.envFile !== undefined) {
+        const envPath = path.posix.join(appDir, ENV_FILE);
+        await sftp.put(Buffer.from(files.envFile, 'utf-8'), envPath, { writeStreamOptions: { mode: 0o600 } });
+        // 已存在的文件不会应用 open 时的 mode
+        await sftp.chmod(envPath, 0o600);
+        outputChannel.appendLine(`[Deployer] ✓ Wrote ${envPath} (0600)`);
+    }
+    if (files.appsettings) {
+        const settingsPath = path.posix.join(remoteDir, files.appsettings.fileName);
+        await sftp.put(Buffer.from(files.appsettings.content, 'utf-8'), settingsPath);
+        outputChannel.appendLine(`[Deployer] ✓ Wrote ${settingsPath}`);
+    }
+}
+
+/**
+ * Get all files in directory recursively
+ */
+function getAllFiles(dirPath: string, files: string[] = []): string[] {
+    const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+        const fullPath = path.join(dirPath, entry.name);
+        if (entry.isDirectory()) {
+            getAllFiles(fullPath, files);
+        } else {
+            files.push(fullPath);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Calculate SHA-256 hash of a file
+ */
+function calculateFileHash(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
 }
 
-export interface DeployResult {
-    success: boolean;
-    error?: string;
+/**
+ * Manifest key of a local file: path relative to the publish directory with forward slashes
+ */
+function toManifestPath(localPath: string, file: string): string {
+    return path.relative(localPath, file).replace(/\\/g, '/');
 }
 
 /**
- * Expand ~ to home directory
+ * Hash every file of the publish output
  */
-function expandPath(filePath: string): string {
-    if (filePath.startsWith('~')) {
-        return path.join(os.homedir(), filePath.slice(1));
+async function buildLocalManifest(localPath: string, files: string[]): Promise<DeployManifest> {
+    const manifest: DeployManifest = { version: 1, algorithm: 'sha256', files: {} };
+    for (const file of files) {
+        manifest.files[toManifestPath(localPath, file)] = await calculateFileHash(file);
     }
-    return filePath;
+    return manifest;
 }
 
 /**
- * Deploy published files to remote server via SFTP
+ * Download the manifest written by the previous deploy; undefined when missing or unreadable
  */
-export async function deploy(
-    config: DeployConfig,
-    localPath: string,
-    assemblyName: string,
-    outputChannel: vscode.OutputChannel
-): Promise<DeployResult> {
-    const sftp = new Client();
+async function readRemoteManifest(sftp: Client, remoteDir: string): Promise<DeployManifest | undefined> {
+    try {
+        const content = await sftp.get(path.posix.join(remoteDir, MANIFEST_FILE));
+        const manifest = JSON.parse(content.toString());
+        return manifest && manifest.algorithm === 'sha256' && manifest.files ? manifest : undefined;
+    } catch {
+        return undefined;
+    }
+}
 
+/**
+ * Size of a remote file, 0 when it does not exist
+ */
+async function getRemoteSize(sftp: Client, remotePath: string): Promise<number> {
     try {
-        const connectConfig: any = {
-            host: config.host,
-            port: config.port,
-            username: config.username
-        };
+        return (await sftp.stat(remotePath)).size;
+    } catch {
+        return 0;
+    }
+}
 
-        if (config.authType === 'password') {
-            connectConfig.password = config.password;
-        } else {
-            const keyPath = expandPath(config.privateKeyPath || '');
-            if (!fs.existsSync(keyPath)) {
-                throw new Error(`Private key not found: ${keyPath}`);
-            }
-            connectConfig.privateKey = fs.readFileSync(keyPath, 'utf-8');
+/**
+ * Move a file over an existing one. Plain SFTP rename fails when the target exists,
+ * so without the posix-rename extension the target is deleted first.
+ */
+async function replaceRemoteFile(sftp: Client, fromPath: string, toPath: string): Promise<void> {
+    try {
+        await sftp.posixRename(fromPath, toPath);
+    } catch (err: any) {
+        if (!/does not support/i.test(err.message)) {
+            throw err;
         }
+        await sftp.delete(toPath, true);
+        await sftp.rename(fromPath, toPath);
+    }
+}
 
-        outputChannel.appendLine(`[Deployer] Connecting to ${config.host}:${config.port} via ${config.authType}...`);
-
-        // Connect
-        await sftp.connect(connectConfig);
-
-        outputChannel.appendLine(`[Deployer] ✓ Connected`);
-
-        // Create remote directory
-        const remoteDir = path.posix.join(config.remotePath, assemblyName);
-
-        try {
-            await sftp.mkdir(remoteDir, true);
-            outputChannel.appendLine(`[Deployer] ✓ Created remote directory: ${remoteDir}`);
-        } catch (err: any) {
-            // Directory might already exist
-            if (!err.message.includes('already exists')) {
-                outputChannel.appendLine(`[Deployer] Directory exists or created: ${remoteDir}`);
-            }
+/**
+ * Upload a file as one ordered stream, appending to the remote file from `offset`.
+ * Unlike fastPut the writes land in order, so after a dropped connection the remote size is a safe resume point.
+ */
+function putOrdered(
+    sftp: Client,
+    localFile: string,
+    remotePath: string,
+    offset: number,
+    onBytes: (bytes: number) => void
+): Promise<string> {
+    let bytes = 0;
+    const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            bytes += chunk.length;
+            onBytes(bytes);
+            callback(null, chunk);
         }
+    });
+    pipeline(fs.createReadStream(localFile, { start: offset, highWaterMark: STREAM_CHUNK_BYTES }), counter, () => {
+        // 读取错误会销毁 counter，由 put() 的 reject 报告
+    });
 
-        // Get all files to upload
-        const files = getAllFiles(localPath);
+    // highWaterMark: 缓冲多个数据块，ssh2 会把它们作为并发的写请求一起发送
+    return sftp.put(counter, remotePath, {
+        writeStreamOptions: { flags: offset > 0 ? 'a' : 'w', highWaterMark: STREAM_BUFFER_BYTES } as any
+    });
+}
 
-        // 增量上传逻辑
-        let filesToUpload: string[] = files;
-        let skipped = 0;
+/**
+ * Compare a remote file with its local SHA-256; undefined when sha256sum is not available on the server
+ */
+async function matchesRemoteHash(client: SSHClient, remotePath: string, hash: string): Promise<boolean | undefined> {
+    const result = await execCommand(client, `sha256sum ${shellQuote(remotePath)}`);
+    if (result.code !== 0) {
+        return undefined;
+    }
+    return result.stdout.trim().split(/\s+/)[0] === hash;
+}
 
-        if (config.incrementalUpload) {
-            outputChannel.appendLine(`[Deployer] Incremental upload enabled, checking for changes...`);
-            filesToUpload = [];
+/**
+ * Files of the local manifest that are missing on the server or have a different hash there
+ */
+export function getChangedFiles(local: DeployManifest, remote: DeployManifest): string[] {
+    return Object.keys(local.files).filter(file => remote.files[file] !== local.files[file]);
+}
 
-            for (const file of files) {
-                const relativePath = path.relative(localPath, file);
-                const remoteFilePath = path.posix.join(remoteDir, relativePath.replace(/\\/g, '/'));
+/**
+ * Upload files with a pool of concurrent transfers, reporting byte-level progress.
+ * Each file is retried on failure; large files resume from the partial upload of this run.
+ */
+async function uploadFiles(
+    connection: SftpConnection,
+    localPath: string,
+    remoteDir: string,
+    files: string[],
+    manifest: DeployManifest,
+    concurrency: number,
+    outputChannel: vscode.OutputChannel,
+    onProgress?: (progress: UploadProgress) => void,
+    token?: vscode.CancellationToken
+): Promise<void> {
+    const remotePaths = files.map(file => path.posix.join(remoteDir, path.relative(localPath, file).replace(/\\/g, '/')));
+    const sizes = files.map(file => fs.statSync(file).size);
+    const totalBytes = sizes.reduce((sum, size) => sum + size, 0);
+    const transferred = new Array<number>(files.length).fill(0);
+    // 本次部署已开始写入 .partial 的文件，只有这些文件可以续传
+    const started = new Array<boolean>(files.length).fill(false);
+    const startTime = Date.now();
+    let filesDone = 0;
+    let lastReport = 0;
+
+    const report = (force: boolean) => {
+        const now = Date.now();
+        if (!onProgress || (!force && now - lastReport < PROGRESS_INTERVAL_MS)) {
+            return;
+        }
+        lastReport = now;
+
+        const transferredBytes = transferred.reduce((sum, bytes) => sum + bytes, 0);
+        const elapsed = (now - startTime) / 1000;
+        const bytesPerSecond = elapsed > 0 ? transferredBytes / elapsed : 0;
+        onProgress({
+            transferredBytes,
+            totalBytes,
+            filesDone,
+            totalFiles: files.length,
+            bytesPerSecond,
+            etaSeconds: bytesPerSecond > 0 ? (totalBytes - transferredBytes) / bytesPerSecond : undefined
+        });
+    };
 
-                const needsUpload = await shouldUploadFile(sftp, file, remoteFilePath);
-                if (needsUpload) {
-                    filesToUpload.push(file);
-                } else {
-                    skipped++;
+    // 先按顺序创建目录，避免并发 mkdir 相互冲突
+    const dirs = [...new Set(remotePaths.map(p => path.posix.dirname(p)))].filter(dir => dir !== remoteDir).sort();
+    for (const dir of dirs) {
+        await connection.retry(`Create ${dir}`, async sftp => {
+            try {
+                await sftp.mkdir(dir, true);
+            } catch (err) {
+                // Ignore if exists; a dropped connection is retried
+                if (!connection.connected) {
+                    throw err;
                 }
             }
+        }, token);
+    }
 
-            outputChannel.appendLine(`[Deployer] Incremental: ${filesToUpload.length} files to upload, ${skipped} files unchanged`);
-        }
-
-        if (filesToUpload.length === 0) {
-            outputChannel.appendLine(`[Deployer] ✓ All files are up to date, nothing to upload`);
-        } else {
-            outputChannel.appendLine(`[Deployer] Uploading ${filesToUpload.length} files...`);
+    const uploadFile = (index: number) => connection.retry(`Upload ${toManifestPath(localPath, files[index])}`, async sftp => {
+        const remotePath = remotePaths[index];
+        if (sizes[index] < RESUME_MIN_BYTES) {
+            transferred[index] = 0;
+            await sftp.fastPut(files[index], remotePath, {
+                step: (totalTransferred: number) => {
+                    transferred[index] = totalTransferred;
+                    report(false);
+                }
+            });
+            return;
         }
 
-        let uploaded = 0;
-        for (const file of filesToUpload) {
-            const relativePath = path.relative(localPath, file);
-            const remotePath = path.posix.join(remoteDir, relativePath.replace(/\\/g, '/'));
-            const remoteFileDir = path.posix.dirname(remotePath);
+        const relativePath = toManifestPath(localPath, files[index]);
+        const partialPath = remotePath + PARTIAL_SUFFIX;
+        const upload = async (start: number) => {
+            transferred[index] = start;
+            await putOrdered(sftp, files[index], partialPath, start, bytes => {
+                transferred[index] = start + bytes;
+                report(false);
+            });
+        };
 
-            // Ensure remote directory exists
-            try {
-                await sftp.mkdir(remoteFileDir, true);
-            } catch {
-                // Ignore if exists
+        // 重试时从本次写入的 .partial 已有的大小继续追加
+        const offset = started[index] ? await getRemoteSize(sftp, partialPath) : 0;
+        let resumed = offset > 0 && offset <= sizes[index];
+        if (resumed && (await execCommand(connection.client, 'command -v sha256sum')).code !== 0) {
+            // 续传结果无法校验，不冒险拼接
+            outputChannel.appendLine(`[Deployer] ⚠️ sha256sum not available on server, uploading ${relativePath} again instead of resuming`);
+            resumed = false;
+        }
+        if (resumed) {
+            outputChannel.appendLine(`[Deployer] Resuming ${relativePath} at ` +
+                `${(offset / 1024 / 1024).toFixed(2)}/${(sizes[index] / 1024 / 1024).toFixed(2)} MB`);
+        }
+        started[index] = true;
+        await upload(resumed ? offset : 0);
+
+        if (resumed) {
+            const matches = await matchesRemoteHash(connection.client, partialPath, manifest.files[relativePath]);
+            if (matches !== true) {
+                // 续传结果不一致或无法校验时完整上传一次
+                outputChannel.appendLine(`[Deployer] ⚠️ Checksum mismatch after resuming ${relativePath}, uploading it again`);
+                await upload(0);
             }
-
-            // Upload file
-            await sftp.put(file, remotePath);
-            uploaded++;
+        }
+        await replaceRemoteFile(sftp, partialPath, remotePath);
+    }, token);
+
+    let next = 0;
+    const worker = async () => {
+        while (next < files.length) {
+            throwIfCancelled(token);
+            const index = next++;
+            await uploadFile(index);
+            transferred[index] = sizes[index];
+            filesDone++;
 
             // Progress update every 10 files
-            if (uploaded % 10 === 0 || uploaded === filesToUpload.length) {
-                outputChannel.appendLine(`[Deployer] Progress: ${uploaded}/${filesToUpload.length} files`);
+            if (filesDone % 10 === 0 || filesDone === files.length) {
+                outputChannel.appendLine(`[Deployer] Progress: ${filesDone}/${files.length} files`);
             }
+            report(filesDone === files.length);
         }
+    };
 
-        // Make executable file executable
-        const executablePath = path.posix.join(remoteDir, assemblyName);
-        await sftp.chmod(executablePath, 0o755);
-        outputChannel.appendLine(`[Deployer] ✓ Set executable permissions on ${assemblyName}`);
+    const workers = Math.max(1, Math.min(concurrency, files.length));
+    await Promise.all(Array.from({ length: workers }, worker));
 
-        await sftp.end();
-        outputChannel.appendLine(`[Deployer] ✓ Upload complete`);
+    const elapsed = (Date.now() - startTime) / 1000;
+    if (elapsed > 0 && totalBytes > 0) {
+        outputChannel.appendLine(`[Deployer] Transferred ${(totalBytes / 1024 / 1024).toFixed(2)} MB in ${elapsed.toFixed(1)}s ` +
+            `(${(totalBytes / 1024 / 1024 / elapsed).toFixed(2)} MB/s, ${workers} concurrent)`);
+    }
+}
 
-        // Send success notification
-        if (config.telegramEnabled && config.telegramBotToken && config.telegramChatId) {
-            await sendTelegramNotification(
-                config.telegramBotToken,
-                config.telegramChatId,
-                `✅ *Deploy Successful*\n\nProject: \`${assemblyName}\`\nHost: \`${config.host}\`\nPath: \`${config.remotePath}/${assemblyName}\``,
-                outputChannel
-            );
+/**
+ * Stream a tar.gz of the files to the server, extract it into a staging directory,
+ * check the file count and move the files into place.
+ * A dropped connection reconnects and repeats the whole step with a fresh archive (see uploadRetries).
+ * Returns false when tar is not available locally or on the server, so the caller can upload file by file.
+ */
+async function uploadArchive(
+    connection: SftpConnection,
+    localPath: string,
+    remoteDir: string,
+    files: string[],
+    outputChannel: vscode.OutputChannel,
+    onProgress?: (progress: UploadProgress) => void,
+    token?: vscode.CancellationToken
+): Promise<boolean> {
+    const remoteTar = await connection.retry('Check tar', () => execCommand(connection.client, 'command -v tar'), token);
+    if (remoteTar.code !== 0) {
+        outputChannel.appendLine(`[Deployer] ⚠️ tar not found on server, falling back to per-file upload`);
+        return false;
+    }
 
-            // Upload artifact if enabled
-            if (config.telegramUpload) {
-                // Find the main executable or single file
-                // In single file publish, it's just assemblyName (no extension on Linux)
-                const artifactPath = path.join(localPath, assemblyName);
-                if (fs.existsSync(artifactPath)) {
-                    await sendTelegramDocument(
-                        config.telegramBotToken,
-                        config.telegramChatId,
-                        artifactPath,
-                        outputChannel
-                    );
-                } else {
-                    // Try with .exe for windows cross compile? Or just zip?
-                    // For now, assume single file artifact
-                    outputChannel.appendLine(`[Telegram] Artifact not found at ${artifactPath}, skipping upload.`);
-                }
-            }
+    const stagingPrefix = path.posix.join(path.posix.dirname(remoteDir), `.${path.posix.basename(remoteDir)}.staging-`);
+    const fileList = files.map(file => path.relative(localPath, file).replace(/\\/g, '/')).join('\n') + '\n';
+
+    return connection.retry('Upload archive', async (sftp, attempt) => {
+        const client = connection.client;
+        const stagingDir = `${stagingPrefix}${Date.now()}`;
+        const archivePath = `${stagingDir}.tar.gz`;
+        // 连接已断开时清理会失败，残留文件由下一次尝试删除
+        const cleanup = () => execCommand(client, `rm -rf ${shellQuote(stagingDir)} ${shellQuote(archivePath)}`).catch(() => undefined);
+
+        if (attempt > 0) {
+            await execCommand(client, `rm -rf ${shellQuote(stagingPrefix)}*`);
         }
 
-        return { success: true };
+        // COPYFILE_DISABLE: 防止 macOS 的 bsdtar 写入 ._ 扩展属性文件
+        const tar = spawn('tar', ['-czf', '-', '-C', localPath, '-T', '-'], {
+            env: { ...process.env, COPYFILE_DISABLE: '1' }
+        });
+        try {
+            await new Promise<void>((resolve, reject) => {
+                tar.once('spawn', () => resolve());
+                tar.once('error', reject);
+            });
+        } catch (err: any) {
+            outputChannel.appendLine(`[Deployer] ⚠️ tar not available locally (${err.message}), falling back to per-file upload`);
+            return false;
+        }
 
-    } catch (err: any) {
-        // Send failure notification
-        if (config.telegramEnabled && config.telegramBotToken && config.telegramChatId) {
-            await sendTelegramNotification(
-                config.telegramBotToken,
-                config.telegramChatId,
-                `❌ *Deploy Failed*\n\nProject: \`${assemblyName}\`\nHost: \`${config.host}\`\nError: ${err.message}`,
-                outputChannel
-            );
+        const tarExit = new Promise<number>(resolve => tar.on('close', code => resolve(code ?? -1)));
+        let tarError = '';
+        tar.stderr.on('data', (data: Buffer) => tarError += data.toString());
+        tar.stdin.end(fileList);
+
+        // 压缩包大小在 tar 结束前未知，只报告已发送字节数和速度
+        const startTime = Date.now();
+        let transferredBytes = 0;
+        let lastReport = 0;
+        const report = (done: boolean) => {
+            const now = Date.now();
+            if (!onProgress || (!done && now - lastReport < PROGRESS_INTERVAL_MS)) {
+                return;
+            }
+            lastReport = now;
+            const elapsed = (now - startTime) / 1000;
+            onProgress({
+                transferredBytes,
+                totalBytes: done ? transferredBytes : 0,
+                filesDone: done ? files.length : 0,
+                totalFiles: files.length,
+                bytesPerSecond: elapsed > 0 ? transferredBytes / elapsed : 0
+            });
+        };
+        const counter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                transferredBytes += chunk.length;
+                report(false);
+                callback(null, chunk);
+            }
+        });
+        tar.stdout.pipe(counter);
+
+        // 连接断开时 put 可能一直挂起，结束本地 tar 进程
+        const killTar = () => tar.kill();
+        client.once('close', killTar);
+        try {
+            outputChannel.appendLine(`[Deployer] Streaming tar.gz of ${files.length} files...`);
+            await sftp.put(counter, archivePath);
+
+            const code = await tarExit;
+            if (code !== 0) {
+                throw new Error(`local tar exited with code ${code}: ${tarError.trim()}`);
+            }
+            report(true);
+        } catch (err) {
+            tar.kill();
+            await cleanup();
+            throw err;
+        } finally {
+            client.removeListener('close', killTar);
         }
-        outputChannel.appendLine(`[Deployer] ✗ Error: ${err.message}`);
+
         try {
-            await sftp.end();
-        } catch {
-            // Ignore close errors
+            const size = (await sftp.stat(archivePath)).size;
+            outputChannel.appendLine(`[Deployer] ✓ Uploaded archive (${(size / 1024 / 1024).toFixed(2)} MB), extracting...`);
+
+            const extract = await execCommand(client,
+                `mkdir -p ${shellQuote(stagingDir)} && tar -xzf ${shellQuote(archivePath)} -C ${shellQuote(stagingDir)}`);
+            if (extract.code !== 0) {
+                throw new Error(`tar -xzf exited with code ${extract.code}: ${extract.stderr.trim()}`);
+            }
+
+            const count = await execCommand(client, `find ${shellQuote(stagingDir)} \\( -type f -o -type l \\) | wc -l`);
+            const extracted = parseInt(count.stdout.trim(), 10);
+            if (extracted !== files.length) {
+                throw new Error(`Archive check failed: expected ${files.length} files, extracted ${extracted}`);
+            }
+            outputChannel.appendLine(`[Deployer] ✓ Extracted ${extracted} files to staging directory`);
+
+            // mv 替换目录项而不是覆写文件内容，正在运行的可执行文件不会报 Text file busy
+            // 中途断开后重试会重新解压并再次移动全部文件
+            const move = await execCommand(client,
+                `cd ${shellQuote(stagingDir)} && find . \\( -type f -o -type l \\) -exec sh -c ` +
+                `${shellQuote('for f; do mkdir -p "$0/$(dirname "$f")" && mv -f "$f" "$0/$f" || exit 1; done')} ` +
+                `${shellQuote(remoteDir)} {} +`);
+            if (move.code !== 0) {
+                throw new Error(`Failed to move files into ${remoteDir}: ${move.stderr.trim()}`);
+            }
+            outputChannel.appendLine(`[Deployer] ✓ Moved files into ${remoteDir}`);
+        } finally {
+            await cleanup();
         }
-        return { success: false, error: err.message };
-    }
+        return true;
+    }, token);
 }
 
 /**
- * Get all files in directory recursively
+ * Convert a protected-path glob into a regular expression.
+ * `**` spans directories, `*` and `?` stay within one path segment.
  */
-function getAllFiles(dirPath: string, files: string[] = []): string[] {
-    const entries = fs.readdirSync(dirPath, { withFileTypes: true });
-
-    for (const entry of entries) {
-        const fullPath = path.join(dirPath, entry.name);
-        if (entry.isDirectory()) {
-            getAllFiles(fullPath, files);
+export function globToRegExp(glob: string): RegExp {
+    let regex = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            regex += '.*';
+            i++;
+        } else if (char === '*') {
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
         } else {
-            files.push(fullPath);
+            regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
         }
     }
+    return new RegExp(`^${regex}$`);
+}
 
-    return files;
+/**
+ * Whether a remote path is kept by mirror mode.
+ * Patterns without a slash match the file name in any directory.
+ */
+export function isProtectedPath(relativePath: string, patterns: RegExp[], basenamePatterns: RegExp[]): boolean {
+    const name = path.posix.basename(relativePath);
+    return patterns.some(p => p.test(relativePath) || p.test(relativePath + '/')) ||
+        basenamePatterns.some(p => p.test(name));
+}
+
+/**
+ * List files (including symlinks) and directories under a remote directory, relative to it
+ */
+async function listRemoteTree(client: SSHClient, remoteDir: string): Promise<{ files: string[]; dirs: string[] }> {
+    const list = async (type: string) => {
+        const result = await execCommand(client, `cd ${shellQuote(remoteDir)} && find . -mindepth 1 ${type}`);
+        if (result.code !== 0) {
+            throw new Error(`Failed to list ${remoteDir}: ${result.stderr.trim()}`);
+        }
+        return result.stdout.split('\n').filter(line => line).map(line => line.replace(/^\.\//, ''));
+    };
+    return { files: await list('\\( -type f -o -type l \\)'), dirs: await list('-type d') };
 }
 
 /**
- * Calculate MD5 hash of a file
+ * Delete remote files and directories that are not part of the local publish output
  */
-function calculateFileHash(filePath: string): string {
-    const fileBuffer = fs.readFileSync(filePath);
-    const hashSum = crypto.createHash('md5');
-    hashSum.update(fileBuffer);
-    return hashSum.digest('hex');
+async function mirrorRemoteDir(
+    client: SSHClient,
+    remoteDir: string,
+    manifest: DeployManifest,
+    protectedPaths: string[],
+    isAppDir: boolean,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    // .env 由服务器端维护 (见 getRemoteEnvFilePath)，不在本地发布目录中
+    const globs = [...protectedPaths, MANIFEST_FILE, ENV_FILE];
+    if (isAppDir) {
+        // 非原子模式下应用目录中可能残留以前的原子发布目录，始终保留
+        globs.push(`${RELEASES_DIR}/**`, CURRENT_LINK);
+    }
+    const patterns = globs.filter(g => g.includes('/')).map(globToRegExp);
+    const basenamePatterns = globs.filter(g => !g.includes('/')).map(globToRegExp);
+
+    const localDirs = new Set<string>();
+    for (const file of Object.keys(manifest.files)) {
+        for (let dir = path.posix.dirname(file); dir !== '.'; dir = path.posix.dirname(dir)) {
+            localDirs.add(dir);
+        }
+    }
+
+    const remote = await listRemoteTree(client, remoteDir);
+    const staleFiles = remote.files.filter(file => !(file in manifest.files) && !isProtectedPath(file, patterns, basenamePatterns));
+    // 由深到浅删除，rmdir 只会删除已经为空的目录
+    const staleDirs = remote.dirs
+        .filter(dir => !localDirs.has(dir) && !isProtectedPath(dir, patterns, basenamePatterns))
+        .sort((a, b) => b.split('/').length - a.split('/').length);
+
+    if (staleFiles.length === 0 && staleDirs.length === 0) {
+        outputChannel.appendLine(`[Deployer] Mirror: no stale files on server`);
+        return;
+    }
+
+    outputChannel.appendLine(`[Deployer] Mirror: ${staleFiles.length} stale files will be deleted:`);
+    for (const file of staleFiles) {
+        outputChannel.appendLine(`[Deployer]   - ${file}`);
+    }
+
+    const chunkSize = 100;
+    for (let i = 0; i < staleFiles.length; i += chunkSize) {
+        const args = staleFiles.slice(i, i + chunkSize).map(shellQuote).join(' ');
+        const result = await execCommand(client, `cd ${shellQuote(remoteDir)} && rm -f -- ${args}`);
+        if (result.code !== 0) {
+            throw new Error(`Failed to delete stale files: ${result.stderr.trim()}`);
+        }
+    }
+
+    let removedDirs = 0;
+    for (const dir of staleDirs) {
+        const result = await execCommand(client, `cd ${shellQuote(remoteDir)} && rmdir -- ${shellQuote(dir)} 2>/dev/null`);
+        if (result.code === 0) {
+            removedDirs++;
+        }
+    }
+
+    outputChannel.appendLine(`[Deployer] ✓ Mirror: deleted ${staleFiles.length} files and ${removedDirs} empty directories`);
 }
 
 /**
- * Check if a file needs to be uploaded by comparing size and modification time
- * Returns true if file should be uploaded, false if it can be skipped
+ * Point `current` back at the release before the active one (atomic release mode)
  */
-async function shouldUploadFile(sftp: Client, localFile: string, remoteFile: string): Promise<boolean> {
+export async function rollback(
+    config: DeployConfig,
+    assemblyName: string,
+    outputChannel: vscode.OutputChannel
+): Promise<DeployResult> {
+    const sftp = new Client();
+    const appDir = path.posix.join(config.remotePath, assemblyName);
+    let chain: JumpChain | undefined;
+    config = resolveDeployConfig(config, outputChannel);
+
     try {
-        // Get local file stats
-        const localStats = fs.statSync(localFile);
+        const connectConfig = await buildConnectConfig(config, outputChannel);
+        chain = await openJumpChain(config, outputChannel);
+
+        outputChannel.appendLine(`[Deployer] Connecting to ${config.host}:${config.port} via ${config.authType}...`);
+        await sftp.connect({ ...connectConfig, ...getTimeoutOptions(config), sock: chain.sock });
+        outputChannel.appendLine(`[Deployer] ✓ Connected`);
+
+        const client = getSshClient(sftp);
+        const releases = await listReleases(client, appDir);
+        const current = await getCurrentRelease(client, appDir);
+
+        if (!current) {
+            throw new Error(`No active release found at ${path.posix.join(appDir, CURRENT_LINK)}`);
+        }
 
-        // Try to get remote file stats
-        let remoteStat;
+        const index = releases.indexOf(current);
+        if (index <= 0) {
+            throw new Error(`No release older than ${current} to roll back to`);
+        }
+
+        const previous = releases[index - 1];
+        outputChannel.appendLine(`[Deployer] Rolling back ${current} -> ${previous}`);
+        await switchCurrentRelease(client, appDir, previous);
+        outputChannel.appendLine(`[Deployer] ✓ Switched ${CURRENT_LINK} -> ${RELEASES_DIR}/${previous}`);
+
+        await sftp.end();
+        closeJumpChain(chain);
+        return { success: true, releaseId: previous };
+    } catch (err: any) {
+        outputChannel.appendLine(`[Deployer] ✗ Rollback failed: ${err.message}`);
         try {
-            remoteStat = await sftp.stat(remoteFile);
+            await sftp.end();
         } catch {
-            // Remote file doesn't exist, need to upload
-            return true;
+            // Ignore close errors
         }
+        closeJumpChain(chain);
+        return { success: false, error: err.message };
+    }
+}
 
-        // Compare file sizes - if different, need to upload
-        if (localStats.size !== remoteStat.size) {
-            return true;
-        }
+/**
+ * Install or update the generated systemd unit, enable it on first deploy and restart the service
+ */
+async function startSystemdService(
+    config: DeployConfig,
+    options: SystemdOptions,
+    assemblyName: string,
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
+): Promise<DeployResult> {
+    const serviceName = getServiceName(options, assemblyName);
+    const unitPath = `/etc/systemd/system/${serviceName}.service`;
+    const unit = generateUnitFile(options, {
+        assemblyName,
+        appDir: getRemoteAppDir(config, assemblyName),
+        sshUser: config.username,
+        environmentFile: config.appConfig?.envFile !== undefined ? getRemoteEnvFilePath(config, assemblyName) : undefined
+    });
+    // -n: 需要密码时直接失败，而不是卡在无终端的提示上
+    const sudo = config.username === 'root' ? '' : 'sudo -n ';
+
+    let session: RemoteSession | undefined;
+    const cancelListener = token?.onCancellationRequested(() => session?.close());
+    try {
+        session = await openRemoteSession(config, outputChannel);
+        const run = async (command: string) => {
+            throwIfCancelled(token);
+            const result = await session!.exec(command);
+            if (result.code !== 0) {
+                throw new Error(`${command} exited with code ${result.code}: ${(result.stderr || result.stdout).trim()}`);
+            }
+        };
 
-        // Compare modification times - if local is newer, need to upload
-        // Remote mtime is in seconds, local is in milliseconds
-        const localMtime = Math.floor(localStats.mtimeMs / 1000);
-        const remoteMtime = remoteStat.modifyTime;
+        const existing = await session.exec(`cat ${shellQuote(unitPath)} 2>/dev/null`);
+        if (existing.code !== 0 || existing.stdout !== unit) {
+            outputChannel.appendLine(`[Runner] ${existing.code === 0 ? 'Updating' : 'Installing'} ${unitPath}`);
+            const encoded = Buffer.from(unit, 'utf-8').toString('base64');
+            await run(`echo ${encoded} | base64 -d | ${sudo}tee ${shellQuote(unitPath)} > /dev/null`);
+            await run(`${sudo}systemctl daemon-reload`);
+        }
 
-        if (localMtime > remoteMtime) {
-            return true;
+        const enabled = await session.exec(`systemctl is-enabled ${shellQuote(serviceName)}`);
+        if (enabled.stdout.trim() !== 'enabled') {
+            outputChannel.appendLine(`[Runner] Enabling ${serviceName}`);
+            await run(`${sudo}systemctl enable ${shellQuote(serviceName)}`);
         }
 
-        // Files appear to be the same
-        return false;
-    } catch {
-        // On any error, upload the file to be safe
-        return true;
+        outputChannel.appendLine(`[Runner] Executing: systemctl restart ${serviceName}`);
+        await run(`${sudo}systemctl restart ${shellQuote(serviceName)}`);
+        outputChannel.appendLine(`[Runner] ✓ Service ${serviceName} restarted`);
+        return { success: true };
+    } catch (err: any) {
+        if (token?.isCancellationRequested) {
+            outputChannel.appendLine(`[Runner] ✗ Cancelled`);
+            return { success: false, error: 'Cancelled' };
+        }
+        outputChannel.appendLine(`[Runner] ✗ ${err.message}`);
+        return { success: false, error: err.message };
+    } finally {
+        cancelListener?.dispose();
+        session?.close();
     }
 }
 
 /**
- * Execute remote command via SSH
+ * Execute remote command via SSH.
+ * Cancelling the token closes the connection; the pty hangs up the remote command.
  */
 export async function executeRemote(
     config: DeployConfig,
     assemblyName: string,
-    outputChannel: vscode.OutputChannel
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
 ): Promise<DeployResult> {
+    config = resolveDeployConfig(config, outputChannel);
+
+    if (config.systemd?.enabled) {
+        return startSystemdService(config, config.systemd, assemblyName, outputChannel, token);
+    }
+
+    let connectConfig: any;
+    let chain: JumpChain;
+    try {
+        connectConfig = await buildConnectConfig(config, outputChannel);
+        chain = await openJumpChain(config, outputChannel);
+    } catch (err: any) {
+        outputChannel.appendLine(`[Runner] ✗ SSH Error: ${err.message}`);
+        return { success: false, error: err.message };
+    }
+
+    if (token?.isCancellationRequested) {
+        closeJumpChain(chain);
+        outputChannel.appendLine(`[Runner] ✗ Cancelled`);
+        return { success: false, error: 'Cancelled' };
+    }
 
     return new Promise((resolve) => {
         const client = new SSHClient();
-        const connectConfig: any = {
-            host: config.host,
-            port: config.port,
-            username: config.username
-        };
 
-        if (config.authType === 'password') {
-            connectConfig.password = config.password;
-        } else {
-            const keyPath = expandPath(config.privateKeyPath || '');
-            if (!fs.existsSync(keyPath)) {
-                resolve({ success: false, error: `Private key not found: ${keyPath}` });
-                return;
-            }
-            connectConfig.privateKey = fs.readFileSync(keyPath, 'utf-8');
-        }
+        // 先以取消结果结束，之后连接关闭触发的 close/error 事件不再改变结果
+        const cancelListener = token?.onCancellationRequested(() => {
+            outputChannel.appendLine(`[Runner] ✗ Cancelled`);
+            resolve({ success: false, error: 'Cancelled' });
+            client.end();
+        });
 
         client.on('ready', () => {
-            const remoteExe = path.posix.join(config.remotePath, assemblyName, assemblyName);
+            const appDir = getRemoteAppDir(config, assemblyName);
+            const remoteExe = path.posix.join(appDir, assemblyName);
             let command = config.afterUploadCommand || 'sudo {remote_path}/{app_name} start';
 
             // Variable substitution
             command = command.replace(/{app_name}/g, assemblyName)
-                .replace(/{remote_path}/g, path.posix.join(config.remotePath, assemblyName))
+                .replace(/{remote_path}/g, appDir)
                 .replace(/{app_path}/g, remoteExe);
 
             outputChannel.appendLine(`[Runner] Executing: ${command}`);
@@ -318,6 +1759,9 @@ export async function executeRemote(
 
                 stream.on('close', (code: number) => {
                     client.end();
+                    if (token?.isCancellationRequested) {
+                        return;
+                    }
                     if (code === 0) {
                         outputChannel.appendLine(`[Runner] ✓ Service started successfully`);
                         resolve({ success: true });
@@ -343,18 +1787,77 @@ export async function executeRemote(
 
         client.on('error', (err) => {
             outputChannel.appendLine(`[Runner] ✗ SSH Error: ${err.message}`);
+            closeJumpChain(chain);
             resolve({ success: false, error: err.message });
         });
 
+        // 目标连接关闭后再关闭跳板机连接
+        client.on('close', () => {
+            cancelListener?.dispose();
+            closeJumpChain(chain);
+        });
+
         try {
-            client.connect(connectConfig);
+            client.connect({ ...connectConfig, ...getTimeoutOptions(config), sock: chain.sock });
         } catch (err: any) {
+            closeJumpChain(chain);
             resolve({ success: false, error: err.message });
         }
     });
 }
 
-async function sendTelegramNotification(token: string, chatId: string, message: string, outputChannel: vscode.OutputChannel) {
+/**
+ * Send the deploy success message and, when enabled, the published executable
+ */
+export async function sendDeploySuccessNotification(
+    config: DeployConfig,
+    localPath: string,
+    assemblyName: string,
+    outputChannel: vscode.OutputChannel,
+    releaseId?: string,
+    details = ''
+): Promise<void> {
+    if (!config.telegramEnabled || !config.telegramBotToken || !config.telegramChatId) {
+        return;
+    }
+
+    await sendTelegramNotification(
+        config.telegramBotToken,
+        config.telegramChatId,
+        `✅ *Deploy Successful*\n\nProject: \`${assemblyName}\`\nHost: \`${config.host}\`\nPath: \`${getRemoteAppDir(config, assemblyName)}\`` +
+        (releaseId ? `\nRelease: \`${releaseId}\`` : '') + describeSource(config) + details,
+        outputChannel
+    );
+
+    // Upload artifact if enabled
+    if (config.telegramUpload) {
+        // Find the main executable or single file
+        // In single file publish, it's just assemblyName (no extension on Linux)
+        const artifactPath = path.join(localPath, assemblyName);
+        if (fs.existsSync(artifactPath)) {
+            await sendTelegramDocument(
+                config.telegramBotToken,
+                config.telegramChatId,
+                artifactPath,
+                outputChannel
+            );
+        } else {
+            // Try with .exe for windows cross compile? Or just zip?
+            // For now, assume single file artifact
+            outputChannel.appendLine(`[Telegram] Artifact not found at ${artifactPath}, skipping upload.`);
+        }
+    }
+}
+
+/**
+ * Version and source lines of a Telegram notification (empty when neither is known)
+ */
+export function describeSource(config: DeployConfig): string {
+    return (config.version ? `\nVersion: \`${describeVersion(config.version)}\`` : '') +
+        (config.gitInfo ? `\nSource: \`${describeGitInfo(config.gitInfo)}\`` : '');
+}
+
+export async function sendTelegramNotification(token: string, chatId: string, message: string, outputChannel: vscode.OutputChannel) {
     return new Promise<void>((resolve) => {
         const postData = JSON.stringify({
             chat_id: chatId,
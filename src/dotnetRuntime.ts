@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { openRemoteSession, shellQuote, DeployConfig, DeployResult, RemoteSession } from './deployer';
+import { expandPath } from './sshConfig';
+
+export type SharedFramework = 'Microsoft.NETCore.App' | 'Microsoft.AspNetCore.App';
+
+/**
+ * A shared framework reported by `dotnet --list-runtimes`
+ */
+export interface InstalledRuntime {
+    name: string;
+    /** major.minor */
+    version: string;
+    major: number;
+    minor: number;
+}
+
+export interface RuntimeInstallOptions {
+    /** e.g. net8.0 */
+    targetFramework?: string;
+    /** ASP.NET Core apps also need Microsoft.AspNetCore.App */
+    webProject: boolean;
+    /** Where dotnet-install.sh installs on the server; a leading ~/ is the SSH user's home */
+    installDir: string;
+    /** Local copy of dotnet-install.sh, uploaded so the server needs no internet access; required to install */
+    scriptPath?: string;
+}
+
+/** base64 characters per `printf >>`; the exec request must fit in one SSH packet */
+const UPLOAD_CHUNK_CHARS = 16 * 1024;
+/** Locations checked besides the install directory */
+const DOTNET_LOCATIONS = ['"$HOME/.dotnet"', '/usr/share/dotnet', '/usr/lib/dotnet', '/opt/dotnet'];
+
+/**
+ * Release channel of a target framework, e.g. net8.0 -> 8.0
+ */
+export function getRuntimeChannel(targetFramework: string | undefined): string | undefined {
+    const match = targetFramework?.match(/^net(\d+)\.(\d+)$/i);
+    return match && parseInt(match[1], 10) >= 5 ? `${match[1]}.${match[2]}` : undefined;
+}
+
+export function getRequiredFrameworks(webProject: boolean): SharedFramework[] {
+    return webProject ? ['Microsoft.NETCore.App', 'Microsoft.AspNetCore.App'] : ['Microsoft.NETCore.App'];
+}
+
+/**
+ * Installed version that can run the channel.
+ * 默认 RollForward=Minor：需要相同主版本且次版本不低于目标框架
+ */
+export function findCompatibleRuntime(installed: InstalledRuntime[], framework: SharedFramework, channel: string): InstalledRuntime | undefined {
+    const [major, minor] = channel.split('.').map(part => parseInt(part, 10));
+    return installed.find(runtime => runtime.name === framework && runtime.major === major && runtime.minor >= minor);
+}
+
+/**
+ * Shell expression for a remote directory; ~/ is expanded on the server
+ */
+function getRemoteDirExpression(dir: string): string {
+    if (dir === '~') {
+        return '"$HOME"';
+    }
+    return dir.startsWith('~/') ? `"$HOME"/${shellQuote(dir.slice(2))}` : shellQuote(dir);
+}
+
+/**
+ * Shared frameworks from every dotnet found on the server (PATH, install directory and the usual locations).
+ * Returns undefined when there is no dotnet at all.
+ */
+export async function listRemoteRuntimes(session: RemoteSession, installDir?: string): Promise<InstalledRuntime[] | undefined> {
+    // 非交互 SSH 会话通常没有加载 PATH 中的 ~/.dotnet，逐个尝试常见安装位置
+    const dirs = [...(installDir ? [getRemoteDirExpression(installDir)] : []), ...DOTNET_LOCATIONS];
+    const result = await session.exec(
+        'found=; if command -v dotnet >/dev/null 2>&1; then dotnet --list-runtimes; found=1; fi; ' +
+        `for d in ${dirs.join(' ')}; do if [ -x "$d/dotnet" ]; then "$d/dotnet" --list-runtimes; found=1; fi; done; ` +
+        '[ -n "$found" ]'
+    );
+    if (result.code !== 0) {
+        return undefined;
+    }
+
+    const runtimes = new Map<string, InstalledRuntime>();
+    for (const line of result.stdout.split(/\r?\n/)) {
+        const match = line.match(/^(\S+)\s+(\d+)\.(\d+)\.\S+/);
+        if (match) {
+            const runtime = { name: match[1], major: parseInt(match[2], 10), minor: parseInt(match[3], 10), version: `${match[2]}.${match[3]}` };
+            runtimes.set(`${runtime.name} ${runtime.version}`, runtime);
+        }
+    }
+    return [...runtimes.values()];
+}
+
+/**
+ * Shared frameworks the app needs that the server does not have
+ */
+export async function findMissingFrameworks(
+    config: DeployConfig,
+    options: RuntimeInstallOptions,
+    outputChannel: vscode.OutputChannel
+): Promise<SharedFramework[]> {
+    const channel = getRuntimeChannel(options.targetFramework);
+    if (!channel) {
+        throw new Error(`无法从 TargetFramework (${options.targetFramework || '未设置'}) 确定 .NET 版本`);
+    }
+
+    const session = await openRemoteSession(config, outputChannel);
+    try {
+        const installed = await listRemoteRuntimes(session, options.installDir) || [];
+        const missing = getRequiredFrameworks(options.webProject)
+            .filter(framework => !findCompatibleRuntime(installed, framework, channel));
+        outputChannel.appendLine(missing.length > 0
+            ? `[Runtime] ${config.host} is missing ${missing.join(', ')} ${channel}`
+            : `[Runtime] ✓ ${config.host} has .NET ${channel}`);
+        return missing;
+    } finally {
+        session.close();
+    }
+}
+
+/**
+ * Write a local file to the server through the SSH exec channel (base64 in chunks)
+ */
+async function writeRemoteFile(session: RemoteSession, localPath: string, remotePath: string): Promise<void> {
+    const encoded = fs.readFileSync(localPath).toString('base64');
+    const target = shellQuote(remotePath);
+    await session.exec(`: > ${target}.b64`);
+    for (let offset = 0; offset < encoded.length; offset += UPLOAD_CHUNK_CHARS) {
+        const result = await session.exec(`printf %s ${encoded.slice(offset, offset + UPLOAD_CHUNK_CHARS)} >> ${target}.b64`);
+        if (result.code !== 0) {
+            throw new Error(`Failed to write ${remotePath}: ${result.stderr.trim()}`);
+        }
+    }
+    const result = await session.exec(`base64 -d ${target}.b64 > ${target} && rm -f ${target}.b64`);
+    if (result.code !== 0) {
+        throw new Error(`Failed to decode ${remotePath}: ${result.stderr.trim()}`);
+    }
+}
+
+/**
+ * Install the shared runtime for the project's TargetFramework with dotnet-install.sh.
+ * The aspnetcore runtime also contains Microsoft.NETCore.App, so web projects install only that one.
+ */
+export async function installRemoteRuntime(
+    config: DeployConfig,
+    options: RuntimeInstallOptions,
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
+): Promise<DeployResult> {
+    const channel = getRuntimeChannel(options.targetFramework);
+    if (!channel) {
+        return { success: false, error: `无法从 TargetFramework (${options.targetFramework || '未设置'}) 确定 .NET 版本` };
+    }
+
+    const scriptPath = options.scriptPath ? expandPath(options.scriptPath) : '';
+    if (!scriptPath || !fs.existsSync(scriptPath)) {
+        return {
+            success: false,
+            error: scriptPath
+                ? `找不到 dotnet-install.sh: ${scriptPath}`
+                : '未配置 runtimeInstall.scriptPath，请下载 dotnet-install.sh 并设置本地路径'
+        };
+    }
+
+    const runtime = options.webProject ? 'aspnetcore' : 'dotnet';
+    const script = `/tmp/dotnet-install-${Date.now()}.sh`;
+    const installDir = getRemoteDirExpression(options.installDir);
+
+    let session: RemoteSession | undefined;
+    const cancelListener = token?.onCancellationRequested(() => session?.close());
+    try {
+        session = await openRemoteSession(config, outputChannel);
+
+        outputChannel.appendLine(`[Runtime] Uploading ${scriptPath}`);
+        await writeRemoteFile(session, scriptPath, script);
+
+        // 安装目录不可写时 (如 /usr/share/dotnet) 用 sudo -n 安装
+        const writable = await session.exec(`mkdir -p ${installDir} 2>/dev/null && [ -w ${installDir} ]`);
+        const sudo = writable.code === 0 || config.username === 'root' ? '' : 'sudo -n ';
+        const command = `${sudo}bash ${script} --channel ${channel} --runtime ${runtime} --install-dir ${installDir} --no-path`;
+        outputChannel.appendLine(`[Runtime] Executing: ${command}`);
+
+        const code = await session.execStream(command, text => {
+            for (const line of text.replace(/\r/g, '').split('\n')) {
+                if (line.trim()) {
+                    outputChannel.appendLine(`[Runtime] ${line}`);
+                }
+            }
+        });
+        if (code !== 0) {
+            throw new Error(`dotnet-install.sh exited with code ${code}`);
+        }
+
+        outputChannel.appendLine(`[Runtime] ✓ Installed ${runtime} ${channel} to ${options.installDir}`);
+        return { success: true };
+    } catch (err: any) {
+        if (token?.isCancellationRequested) {
+            outputChannel.appendLine('[Runtime] ✗ Cancelled');
+            return { success: false, error: 'Cancelled' };
+        }
+        outputChannel.appendLine(`[Runtime] ✗ ${err.message}`);
+        return { success: false, error: err.message };
+    } finally {
+        cancelListener?.dispose();
+        if (session && !token?.isCancellationRequested) {
+            await session.exec(`rm -f ${script} ${script}.b64`).catch(() => undefined);
+        }
+        session?.close();
+    }
+}
@@ -5,18 +5,101 @@ import { SidebarProvider } from './sidebarProvider';
 import { DashboardProvider } from './dashboardProvider';
 import { SetupWizardProvider } from './setupWizardProvider';
 import { MacOSPackageConfigProvider } from './macosPackageConfigProvider';
+import { initSecrets, migrateSecretsFromSettings, forgetAllSecrets, storeEnvSecret } from './secrets';
+import { loadProfiles } from './profiles';
+import { initVersioning } from './versioning';
+import { DeployHistory, RecordingOutputChannel, formatRecord } from './deployHistory';
+import { HistoryProvider, HistoryItem } from './historyProvider';
 
 let outputChannel: vscode.OutputChannel;
 
+/** Scheme of the read-only run summaries opened by the compare command */
+const HISTORY_SCHEME = 'dotnet-deploy-history';
+
 export function activate(context: vscode.ExtensionContext) {
-    outputChannel = vscode.window.createOutputChannel('Dotnet Deploy');
+    const recordingChannel = new RecordingOutputChannel(vscode.window.createOutputChannel('Dotnet Deploy'));
+    outputChannel = recordingChannel;
+    initSecrets(context.secrets);
+    initVersioning(context.workspaceState);
+    migrateSecretsFromSettings(outputChannel).catch(err =>
+        outputChannel.appendLine(`[Secrets] ⚠️ Failed to migrate settings: ${err.message}`));
+
+    // 没有打开工作区时记录到全局存储
+    const history = new DeployHistory(context.storageUri ?? context.globalStorageUri);
 
     // Register sidebar webview provider (unified UI)
-    const sidebarProvider = new SidebarProvider(context.extensionUri, outputChannel);
+    const sidebarProvider = new SidebarProvider(context.extensionUri, recordingChannel, history);
+    context.subscriptions.push(
+        vscode.window.registerWebviewViewProvider(SidebarProvider.viewType, sidebarProvider),
+        sidebarProvider
+    );
+
+    // Register deploy history view
+    const historyProvider = new HistoryProvider(history);
     context.subscriptions.push(
-        vscode.window.registerWebviewViewProvider(SidebarProvider.viewType, sidebarProvider)
+        vscode.window.registerTreeDataProvider(HistoryProvider.viewType, historyProvider),
+        vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, {
+            provideTextDocumentContent: uri => {
+                const record = history.get(uri.path.replace(/^\//, ''));
+                return record ? formatRecord(record) : '';
+            }
+        }),
+        historyProvider,
+        history
     );
 
+    const openLogCommand = vscode.commands.registerCommand('dotnetDeploy.history.openLog', async (item: HistoryItem) => {
+        const logUri = vscode.Uri.file(history.getLogPath(item.record.id));
+        try {
+            await vscode.window.showTextDocument(logUri, { preview: true });
+        } catch {
+            vscode.window.showWarningMessage('该次部署的日志已不存在');
+        }
+    });
+
+    const compareCommand = vscode.commands.registerCommand('dotnetDeploy.history.compare', async (item: HistoryItem) => {
+        const others = history.list().filter(record => record.id !== item.record.id);
+        if (others.length === 0) {
+            vscode.window.showInformationMessage('没有可以比较的其他部署记录');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            others.map(record => ({
+                label: record.projectName,
+                description: `${record.target === 'local' ? '本地' : record.host} · ${new Date(record.startedAt).toLocaleString()}`,
+                detail: record.result,
+                record
+            })),
+            { placeHolder: '选择要比较的部署记录' }
+        );
+        if (!picked) {
+            return;
+        }
+        // 旧的记录放在左侧
+        const [older, newer] = [picked.record, item.record].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${older.id}` }),
+            vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${newer.id}` }),
+            `${older.projectName} ${new Date(older.startedAt).toLocaleString()} ↔ ${new Date(newer.startedAt).toLocaleString()}`
+        );
+    });
+
+    const redeployCommand = vscode.commands.registerCommand('dotnetDeploy.history.redeploy', async (item: HistoryItem) => {
+        await sidebarProvider.redeploy(item.record);
+    });
+
+    const deleteRecordCommand = vscode.commands.registerCommand('dotnetDeploy.history.delete', (item: HistoryItem) => {
+        history.delete(item.record.id);
+    });
+
+    const clearHistoryCommand = vscode.commands.registerCommand('dotnetDeploy.history.clear', async () => {
+        const confirm = await vscode.window.showWarningMessage('确定要清除所有部署历史和日志吗？', { modal: true }, '清除');
+        if (confirm === '清除') {
+            history.clear();
+        }
+    });
+
     // Register dashboard provider
     const dashboardProvider = new DashboardProvider(context.extensionUri, outputChannel);
     const dashboardCommand = vscode.commands.registerCommand('dotnetDeploy.openDashboard', () => {
@@ -44,6 +127,57 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage('Use the refresh button in sidebar');
     });
 
+    // Register cancel command (stops the running publish/deploy)
+    const cancelCommand = vscode.commands.registerCommand('dotnetDeploy.cancel', () => {
+        sidebarProvider.cancel();
+    });
+
+    // Register forget credentials command
+    const forgetCredentialsCommand = vscode.commands.registerCommand('dotnetDeploy.forgetCredentials', async () => {
+        const confirm = await vscode.window.showWarningMessage(
+            '确定要清除所有已保存的凭据吗？(SSH 密码、私钥密码、Telegram Bot Token、Apple 专用密码)',
+            { modal: true },
+            '清除'
+        );
+        if (confirm !== '清除') {
+            return;
+        }
+        await forgetAllSecrets();
+        sidebarProvider.refresh();
+        vscode.window.showInformationMessage('已清除所有保存的凭据');
+    });
+
+    // Register set environment secret command (values of appConfig.secrets in a profile)
+    const setEnvSecretCommand = vscode.commands.registerCommand('dotnetDeploy.setEnvSecret', async () => {
+        const profiles = loadProfiles().filter(p => p.appConfig?.secrets?.length);
+        if (profiles.length === 0) {
+            vscode.window.showInformationMessage('没有配置 appConfig.secrets 的部署配置');
+            return;
+        }
+
+        const profile = profiles.length === 1
+            ? profiles[0]
+            : (await vscode.window.showQuickPick(profiles.map(p => ({ label: p.name, profile: p })), { placeHolder: '选择部署配置' }))?.profile;
+        if (!profile) {
+            return;
+        }
+        const name = await vscode.window.showQuickPick(profile.appConfig!.secrets!, { placeHolder: '选择环境变量' });
+        if (!name) {
+            return;
+        }
+        const value = await vscode.window.showInputBox({
+            prompt: `${profile.name} 的环境变量 ${name} (下次部署时写入服务器)`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (value === undefined) {
+            return;
+        }
+
+        await storeEnvSecret(profile.name, name, value);
+        vscode.window.showInformationMessage(`已保存 ${profile.name} 的 ${name}`);
+    });
+
     // Register open docs command
     const openDocsCommand = vscode.commands.registerCommand('dotnetDeploy.openCrossCompileDocs', async () => {
         const docsPath = vscode.Uri.joinPath(context.extensionUri, 'CROSS_COMPILE_SETUP.md');
@@ -61,6 +195,14 @@ export function activate(context: vscode.ExtensionContext) {
         macosPackageConfigCommand,
         configureCommand,
         refreshCommand,
+        cancelCommand,
+        forgetCredentialsCommand,
+        setEnvSecretCommand,
+        openLogCommand,
+        compareCommand,
+        redeployCommand,
+        deleteRecordCommand,
+        clearHistoryCommand,
         openDocsCommand,
         outputChannel
     );
@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import * as tls from 'tls';
+import { Duplex } from 'stream';
+import { openRemoteSession, rollback, executeRemote, shellQuote, DeployConfig, DeployResult, RemoteSession } from './deployer';
+
+/**
+ * Post-deploy health check of a profile
+ */
+export interface HealthCheckConfig {
+    type: 'http' | 'tcp';
+    /** HTTP: URL as seen from the server, e.g. http://localhost:5000/health */
+    url?: string;
+    /** HTTP: run curl on the server, or send the request through an SSH tunnel */
+    via?: 'remote' | 'tunnel';
+    expectedStatus?: number;
+    /** TCP: host as seen from the server */
+    host?: string;
+    port?: number;
+    timeoutSeconds?: number;
+    retries?: number;
+    intervalSeconds?: number;
+    /** Switch back to the previous release when the check fails; requires atomic release mode */
+    rollbackOnFailure?: boolean;
+}
+
+export interface HealthCheckResult {
+    success: boolean;
+    error?: string;
+    /** Release that was restored after a failed check */
+    rolledBackTo?: string;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 5;
+const DEFAULT_RETRIES = 5;
+const DEFAULT_INTERVAL_SECONDS = 3;
+
+/**
+ * Wait between attempts; returns early when the check is cancelled
+ */
+function sleep(ms: number, token?: vscode.CancellationToken): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms);
+        const cancelListener = token?.onCancellationRequested(done);
+        function done() {
+            clearTimeout(timer);
+            cancelListener?.dispose();
+            resolve();
+        }
+    });
+}
+
+/**
+ * Short description of the check for logs and notifications
+ */
+export function describeHealthCheck(check: HealthCheckConfig): string {
+    return check.type === 'http'
+        ? `HTTP ${check.url} (${check.via || 'remote'})`
+        : `TCP ${check.host || '127.0.0.1'}:${check.port}`;
+}
+
+/**
+ * HTTP check by running curl on the server
+ */
+async function checkHttpRemote(session: RemoteSession, url: string, timeout: number): Promise<number> {
+    // -k: 健康检查只关心服务是否存活，内网自签名证书同样视为可用
+    const command = `curl -sk -o /dev/null -w '%{http_code}' --max-time ${timeout} ${shellQuote(url)}`;
+    const result = await session.exec(command);
+    if (result.code === 127) {
+        throw new Error('curl not found on server, use "via": "tunnel" instead');
+    }
+
+    const status = parseInt(result.stdout.trim(), 10);
+    if (!status) {
+        throw new Error(`curl exited with code ${result.code}${result.stderr ? ': ' + result.stderr.trim() : ''}`);
+    }
+    return status;
+}
+
+/**
+ * HTTP check sent from this machine through a direct-tcpip channel opened on the server
+ */
+async function checkHttpTunnel(session: RemoteSession, url: string, timeout: number): Promise<number> {
+    const target = new URL(url);
+    const isHttps = target.protocol === 'https:';
+    const port = parseInt(target.port, 10) || (isHttps ? 443 : 80);
+    const stream = await session.forwardOut(target.hostname, port);
+
+    return new Promise((resolve, reject) => {
+        const createConnection = (): Duplex => isHttps
+            ? tls.connect({ socket: stream as any, servername: target.hostname, rejectUnauthorized: false })
+            : stream;
+
+        const request = (isHttps ? https : http).request(url, {
+            method: 'GET',
+            createConnection: createConnection as any,
+            timeout: timeout * 1000
+        }, response => {
+            response.resume();
+            resolve(response.statusCode || 0);
+        });
+
+        request.on('timeout', () => request.destroy(new Error(`Timed out after ${timeout}s`)));
+        request.on('error', reject);
+        request.end();
+    });
+}
+
+/**
+ * TCP check run on the server with nc, falling back to bash /dev/tcp
+ */
+async function checkTcp(session: RemoteSession, host: string, port: number, timeout: number): Promise<void> {
+    if (!/^[\w.:-]+$/.test(host)) {
+        throw new Error(`Invalid health check host: ${host}`);
+    }
+
+    const command = `if command -v nc >/dev/null 2>&1; then nc -z -w ${timeout} ${host} ${port}; ` +
+        `else timeout ${timeout} bash -c ${shellQuote(`exec 3<>/dev/tcp/${host}/${port}`)}; fi`;
+    const result = await session.exec(command);
+    if (result.code !== 0) {
+        throw new Error(`Port ${host}:${port} is not reachable`);
+    }
+}
+
+/**
+ * Run a single attempt of the check, throwing on failure
+ */
+async function runAttempt(session: RemoteSession, check: HealthCheckConfig, timeout: number): Promise<void> {
+    if (check.type === 'tcp') {
+        if (!check.port) {
+            throw new Error('Health check port is not configured');
+        }
+        await checkTcp(session, check.host || '127.0.0.1', check.port, timeout);
+        return;
+    }
+
+    if (!check.url) {
+        throw new Error('Health check URL is not configured');
+    }
+    const expected = check.expectedStatus || 200;
+    const status = check.via === 'tunnel'
+        ? await checkHttpTunnel(session, check.url, timeout)
+        : await checkHttpRemote(session, check.url, timeout);
+
+    if (status !== expected) {
+        throw new Error(`Expected HTTP ${expected}, got ${status}`);
+    }
+}
+
+/**
+ * Poll the health check until it passes or the retries are used up
+ */
+export async function runHealthCheck(
+    config: DeployConfig,
+    check: HealthCheckConfig,
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
+): Promise<HealthCheckResult> {
+    const timeout = check.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+    const attempts = (check.retries ?? DEFAULT_RETRIES) + 1;
+    const interval = (check.intervalSeconds ?? DEFAULT_INTERVAL_SECONDS) * 1000;
+
+    outputChannel.appendLine(`[HealthCheck] Checking ${describeHealthCheck(check)}...`);
+
+    let session: RemoteSession;
+    try {
+        session = await openRemoteSession(config, outputChannel);
+    } catch (err: any) {
+        outputChannel.appendLine(`[HealthCheck] ✗ SSH Error: ${err.message}`);
+        return { success: false, error: err.message };
+    }
+
+    let lastError = '';
+    const cancelListener = token?.onCancellationRequested(() => session.close());
+    try {
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            if (token?.isCancellationRequested) {
+                outputChannel.appendLine('[HealthCheck] ✗ Cancelled');
+                return { success: false, error: 'Cancelled' };
+            }
+
+            try {
+                await runAttempt(session, check, timeout);
+                outputChannel.appendLine(`[HealthCheck] ✓ Healthy (attempt ${attempt}/${attempts})`);
+                return { success: true };
+            } catch (err: any) {
+                lastError = err.message;
+                outputChannel.appendLine(`[HealthCheck] Attempt ${attempt}/${attempts} failed: ${lastError}`);
+            }
+
+            if (attempt < attempts) {
+                await sleep(interval, token);
+            }
+        }
+    } finally {
+        cancelListener?.dispose();
+        session.close();
+    }
+
+    outputChannel.appendLine(`[HealthCheck] ✗ Unhealthy after ${attempts} attempts`);
+    return { success: false, error: lastError };
+}
+
+/**
+ * Health check after the start command; on failure optionally restore the previous release and restart it
+ */
+export async function verifyDeployment(
+    config: DeployConfig,
+    assemblyName: string,
+    check: HealthCheckConfig,
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
+): Promise<HealthCheckResult> {
+    const result = await runHealthCheck(config, check, outputChannel, token);
+    // 用户取消时不做自动回滚
+    if (result.success || !check.rollbackOnFailure || token?.isCancellationRequested) {
+        return result;
+    }
+
+    // 配置校验已拒绝未启用原子发布的组合，这里只防御直接调用
+    if (!config.atomicRelease) {
+        outputChannel.appendLine('[HealthCheck] ✗ Automatic rollback requires atomic release mode');
+        return { ...result, error: `${result.error}; rollback requires atomic release mode` };
+    }
+
+    outputChannel.appendLine('[HealthCheck] Rolling back to the previous release...');
+    const rollbackResult: DeployResult = await rollback(config, assemblyName, outputChannel);
+    if (!rollbackResult.success) {
+        return { ...result, error: `${result.error}; rollback failed: ${rollbackResult.error}` };
+    }
+
+    const startResult = await executeRemote(config, assemblyName, outputChannel, token);
+    if (!startResult.success) {
+        return { ...result, error: `${result.error}; restart after rollback failed: ${startResult.error}` };
+    }
+    return { ...result, rolledBackTo: rollbackResult.releaseId };
+}
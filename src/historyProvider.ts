@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { DeployHistory, DeployRecord, formatRecord, formatDuration } from './deployHistory';
+
+const RESULT_ICONS: Record<DeployRecord['result'], vscode.ThemeIcon> = {
+    success: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+    cancelled: new vscode.ThemeIcon('circle-slash')
+};
+
+export class HistoryItem extends vscode.TreeItem {
+    constructor(public readonly record: DeployRecord) {
+        super(record.projectName, vscode.TreeItemCollapsibleState.None);
+        const target = record.target === 'local' ? '本地' : record.host;
+        this.description = `${target} · ${record.runtime} · ${new Date(record.startedAt).toLocaleString()} · ${formatDuration(record.durationMs)}`;
+        this.tooltip = formatRecord(record);
+        this.iconPath = RESULT_ICONS[record.result];
+        this.contextValue = 'deployRecord';
+        this.command = { command: 'dotnetDeploy.history.openLog', title: '打开日志', arguments: [this] };
+    }
+}
+
+/**
+ * Deploy history tree view (newest run first)
+ */
+export class HistoryProvider implements vscode.TreeDataProvider<HistoryItem> {
+    public static readonly viewType = 'dotnetDeploy.history';
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private readonly _subscription: vscode.Disposable;
+
+    constructor(private readonly _history: DeployHistory) {
+        this._subscription = _history.onDidChange(() => this._onDidChangeTreeData.fire());
+    }
+
+    public getTreeItem(element: HistoryItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: HistoryItem): HistoryItem[] {
+        return element ? [] : this._history.list().map(record => new HistoryItem(record));
+    }
+
+    public dispose() {
+        this._subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -0,0 +1,324 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { expandPath } from './sshConfig';
+
+/** `other-type`: the host is known, but only with keys of a different type than the one presented */
+export type HostKeyStatus = 'match' | 'mismatch' | 'other-type' | 'unknown';
+
+interface KnownHostEntry {
+    marker?: string;
+    hosts: string;
+    keyType: string;
+    key: string;
+}
+
+/** ssh2 host key algorithms producing each known_hosts key type */
+const HOST_KEY_ALGORITHMS: Record<string, string[]> = {
+    'ssh-ed25519': ['ssh-ed25519'],
+    'ecdsa-sha2-nistp256': ['ecdsa-sha2-nistp256'],
+    'ecdsa-sha2-nistp384': ['ecdsa-sha2-nistp384'],
+    'ecdsa-sha2-nistp521': ['ecdsa-sha2-nistp521'],
+    'ssh-rsa': ['rsa-sha2-512', 'rsa-sha2-256', 'ssh-rsa'],
+    'ssh-dss': ['ssh-dss']
+};
+
+/** First-connect prompts are shown one at a time, so parallel deploys do not stack modals */
+let pendingPrompt: Promise<unknown> = Promise.resolve();
+
+/** Trusted keys that could not be written to known_hosts, as `hostPattern key`; kept until the window reloads */
+const unsavedKeys = new Set<string>();
+
+/**
+ * Get the known_hosts file path from settings
+ */
+export function getKnownHostsPath(): string {
+    const config = vscode.workspace.getConfiguration('dotnetDeploy');
+    return expandPath(config.get<string>('server.knownHostsPath') || '~/.ssh/known_hosts');
+}
+
+/**
+ * Host pattern as written to known_hosts: `host` for port 22, `[host]:port` otherwise
+ */
+function formatHostPattern(host: string, port: number): string {
+    return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/**
+ * Read the key type (e.g. ssh-ed25519) from a raw SSH public key blob
+ */
+export function getKeyType(key: Buffer): string {
+    const length = key.readUInt32BE(0);
+    return key.subarray(4, 4 + length).toString('ascii');
+}
+
+/**
+ * OpenSSH style SHA256 fingerprint of a raw SSH public key blob
+ */
+export function getFingerprint(key: Buffer): string {
+    const digest = crypto.createHash('sha256').update(key).digest('base64');
+    return `SHA256:${digest.replace(/=+$/, '')}`;
+}
+
+/**
+ * Parse known_hosts content, skipping comments and malformed lines
+ */
+function parseKnownHosts(content: string): KnownHostEntry[] {
+    const entries: KnownHostEntry[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const fields = line.split(/\s+/);
+        const marker = fields[0].startsWith('@') ? fields.shift() : undefined;
+        if (fields.length < 3) {
+            continue;
+        }
+
+        entries.push({ marker, hosts: fields[0], keyType: fields[1], key: fields[2] });
+    }
+
+    return entries;
+}
+
+/**
+ * Match a single host against a known_hosts glob pattern (* and ?)
+ */
+function matchGlob(pattern: string, value: string): boolean {
+    const regex = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`, 'i').test(value);
+}
+
+/**
+ * Check whether a hashed entry (|1|salt|hash) matches the host pattern
+ */
+function matchHashed(entry: string, hostPattern: string): boolean {
+    const parts = entry.split('|');
+    if (parts.length !== 4 || parts[1] !== '1') {
+        return false;
+    }
+
+    const salt = Buffer.from(parts[2], 'base64');
+    const hash = crypto.createHmac('sha1', salt).update(hostPattern).digest('base64');
+    return hash === parts[3];
+}
+
+/**
+ * Check whether the comma separated host list of an entry covers the host pattern
+ */
+function matchHosts(hosts: string, hostPattern: string): boolean {
+    if (hosts.startsWith('|')) {
+        return matchHashed(hosts, hostPattern);
+    }
+
+    let matched = false;
+    for (const pattern of hosts.split(',')) {
+        if (pattern.startsWith('!')) {
+            if (matchGlob(pattern.slice(1), hostPattern)) {
+                return false;
+            }
+        } else if (matchGlob(pattern, hostPattern)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * Entries for a host, excluding @cert-authority lines
+ */
+function findHostEntries(host: string, port: number, knownHostsPath: string): KnownHostEntry[] {
+    if (!fs.existsSync(knownHostsPath)) {
+        return [];
+    }
+
+    const hostPattern = formatHostPattern(host, port);
+    return parseKnownHosts(fs.readFileSync(knownHostsPath, 'utf-8'))
+        .filter(entry => entry.marker !== '@cert-authority' && matchHosts(entry.hosts, hostPattern));
+}
+
+/**
+ * Key types recorded for a host; empty when the host has never been trusted
+ */
+export function getKnownKeyTypes(host: string, port: number, knownHostsPath = getKnownHostsPath()): string[] {
+    const types = findHostEntries(host, port, knownHostsPath)
+        .filter(entry => !entry.marker)
+        .map(entry => entry.keyType);
+    return [...new Set(types)];
+}
+
+/**
+ * Whether the host has a recorded key, so connecting to it needs no first-connect prompt
+ */
+export function isKnownHost(host: string, port: number): boolean {
+    const prefix = `${formatHostPattern(host, port)} `;
+    return getKnownKeyTypes(host, port).length > 0 || [...unsavedKeys].some(entry => entry.startsWith(prefix));
+}
+
+/**
+ * Host key algorithms to offer for the recorded key types, so the server cannot switch to a type that was never trusted.
+ * Empty when none of the types is supported (the handshake then rejects the other type).
+ */
+export function getHostKeyAlgorithms(keyTypes: string[]): string[] {
+    return keyTypes.flatMap(type => HOST_KEY_ALGORITHMS[type] || []);
+}
+
+/**
+ * Compare a server host key against known_hosts
+ */
+export function checkHostKey(host: string, port: number, key: Buffer, knownHostsPath = getKnownHostsPath()): HostKeyStatus {
+    const keyType = getKeyType(key);
+    const keyBase64 = key.toString('base64');
+    const entries = findHostEntries(host, port, knownHostsPath);
+
+    if (entries.some(entry => entry.marker === '@revoked' && entry.key === keyBase64)) {
+        return 'mismatch';
+    }
+
+    const candidates = entries.filter(entry => !entry.marker);
+    if (candidates.some(entry => entry.key === keyBase64)) {
+        return 'match';
+    }
+
+    // 同类型密钥已记录但内容不同：主机密钥发生变化
+    if (candidates.some(entry => entry.keyType === keyType)) {
+        return 'mismatch';
+    }
+
+    // 主机已记录其他类型的密钥：不能当作首次连接，否则可被降级到未记录的类型
+    if (candidates.length > 0) {
+        return 'other-type';
+    }
+
+    return 'unknown';
+}
+
+/**
+ * Append a host key to known_hosts, creating ~/.ssh if needed
+ */
+export function addHostKey(host: string, port: number, key: Buffer, knownHostsPath = getKnownHostsPath()): void {
+    const dir = path.dirname(knownHostsPath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+
+    let prefix = '';
+    if (fs.existsSync(knownHostsPath)) {
+        const content = fs.readFileSync(knownHostsPath, 'utf-8');
+        if (content.length > 0 && !content.endsWith('\n')) {
+            prefix = '\n';
+        }
+    }
+
+    const line = `${formatHostPattern(host, port)} ${getKeyType(key)} ${key.toString('base64')}\n`;
+    fs.appendFileSync(knownHostsPath, prefix + line, { mode: 0o600 });
+}
+
+/**
+ * checkHostKey() that also accepts keys trusted in this session but not saved
+ */
+function getHostKeyStatus(host: string, port: number, key: Buffer, knownHostsPath: string): HostKeyStatus {
+    const status = checkHostKey(host, port, key, knownHostsPath);
+    if (status === 'unknown' && unsavedKeys.has(`${formatHostPattern(host, port)} ${key.toString('base64')}`)) {
+        return 'match';
+    }
+    return status;
+}
+
+/**
+ * Log and show why a host key was rejected
+ */
+function reportRejectedKey(host: string, port: number, key: Buffer, status: HostKeyStatus, knownHostsPath: string, outputChannel: vscode.OutputChannel): void {
+    const received = `${getKeyType(key)} ${getFingerprint(key)}`;
+    if (status === 'other-type') {
+        const message = `${formatHostPattern(host, port)} is already known with a different key type ` +
+            `(${getKnownKeyTypes(host, port, knownHostsPath).join(', ')}), but presented ${received}. ` +
+            `Add the new key to ${knownHostsPath} manually if the server really changed its keys.`;
+        outputChannel.appendLine(`[SSH] ✗ ${message}`);
+        vscode.window.showErrorMessage(`⚠️ ${host} 已记录其他类型的主机密钥，但服务器提供了未记录的 ${getKeyType(key)} 密钥，连接已中止。详情见输出面板。`);
+        return;
+    }
+
+    const message = `Host key for ${formatHostPattern(host, port)} has changed! ` +
+        `Received ${received}, which does not match ${knownHostsPath}. ` +
+        `This could be a man-in-the-middle attack. Remove the old entry manually if the change is expected.`;
+    outputChannel.appendLine(`[SSH] ✗ ${message}`);
+    vscode.window.showErrorMessage(`⚠️ ${host} 的主机密钥已变更，连接已中止。可能存在中间人攻击，详情见输出面板。`);
+}
+
+/**
+ * Handshake check of a server host key. Never prompts: unknown hosts must be confirmed with confirmHostKey() first,
+ * as the handshake timeout keeps running while the callback is pending.
+ */
+export function verifyHostKey(host: string, port: number, key: Buffer, outputChannel: vscode.OutputChannel): boolean {
+    const knownHostsPath = getKnownHostsPath();
+    const status = getHostKeyStatus(host, port, key, knownHostsPath);
+
+    if (status === 'match') {
+        outputChannel.appendLine(`[SSH] ✓ Host key verified (${getKeyType(key)} ${getFingerprint(key)})`);
+        return true;
+    }
+    if (status === 'unknown') {
+        outputChannel.appendLine(`[SSH] ✗ Host key for ${formatHostPattern(host, port)} is not trusted yet`);
+        return false;
+    }
+
+    reportRejectedKey(host, port, key, status, knownHostsPath, outputChannel);
+    return false;
+}
+
+/**
+ * Ask the user to trust the key of a host that is not in known_hosts yet and save it.
+ * Prompts are queued, and the key is checked again once it is this prompt's turn.
+ */
+export function confirmHostKey(host: string, port: number, key: Buffer, outputChannel: vscode.OutputChannel): Promise<boolean> {
+    const result = pendingPrompt.then(() => promptHostKey(host, port, key, outputChannel));
+    pendingPrompt = result.catch(() => undefined);
+    return result;
+}
+
+async function promptHostKey(host: string, port: number, key: Buffer, outputChannel: vscode.OutputChannel): Promise<boolean> {
+    const knownHostsPath = getKnownHostsPath();
+    const fingerprint = getFingerprint(key);
+    const keyType = getKeyType(key);
+    const status = getHostKeyStatus(host, port, key, knownHostsPath);
+
+    // 排队期间可能已由另一个提示保存
+    if (status === 'match') {
+        return true;
+    }
+    if (status !== 'unknown') {
+        reportRejectedKey(host, port, key, status, knownHostsPath, outputChannel);
+        return false;
+    }
+
+    const selection = await vscode.window.showWarningMessage(
+        `首次连接 ${formatHostPattern(host, port)}`,
+        {
+            modal: true,
+            detail: `主机密钥指纹 (${keyType}):\n${fingerprint}\n\n确认指纹无误后再信任，密钥将保存到 ${knownHostsPath}。`
+        },
+        '信任并保存'
+    );
+
+    if (selection !== '信任并保存') {
+        outputChannel.appendLine(`[SSH] ✗ Host key for ${host} was not accepted`);
+        return false;
+    }
+
+    try {
+        addHostKey(host, port, key, knownHostsPath);
+        outputChannel.appendLine(`[SSH] ✓ Added ${keyType} ${fingerprint} to ${knownHostsPath}`);
+    } catch (err: any) {
+        outputChannel.appendLine(`[SSH] ⚠️ Failed to save host key: ${err.message}`);
+        unsavedKeys.add(`${formatHostPattern(host, port)} ${key.toString('base64')}`);
+    }
+    return true;
+}
@@ -7,6 +7,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { getAppleAppPassword, storeAppleAppPassword } from './secrets';
 
 /**
  * 检查是否在 macOS 平台上
@@ -68,7 +69,7 @@ export class MacOSPackageConfigProvider {
             async (message) => {
                 switch (message.command) {
                     case 'getConfig':
-                        this._sendConfig();
+                        await this._sendConfig();
                         break;
                     case 'saveConfig':
                         await this._saveConfig(message.config);
@@ -89,7 +90,7 @@ export class MacOSPackageConfigProvider {
         );
     }
 
-    private _sendConfig() {
+    private async _sendConfig() {
         const config = vscode.workspace.getConfiguration('dotnetDeploy.macos');
         this._panel.webview.postMessage({
             command: 'config',
@@ -108,6 +109,7 @@ export class MacOSPackageConfigProvider {
                 notarize: config.get<boolean>('codeSign.notarize', false),
                 appleId: config.get<string>('codeSign.appleId', ''),
                 teamId: config.get<string>('codeSign.teamId', ''),
+                appPasswordSaved: !!(await getAppleAppPassword()),
                 // 权限配置
                 entAppSandbox: config.get<boolean>('entitlements.appSandbox', false),
                 entNetworkClient: config.get<boolean>('entitlements.networkClient', false),
@@ -150,6 +152,9 @@ export class MacOSPackageConfigProvider {
             await wsConfig.update('codeSign.notarize', config.notarize, vscode.ConfigurationTarget.Workspace);
             await wsConfig.update('codeSign.appleId', config.appleId, vscode.ConfigurationTarget.Workspace);
             await wsConfig.update('codeSign.teamId', config.teamId, vscode.ConfigurationTarget.Workspace);
+            if (config.appPassword) {
+                await storeAppleAppPassword(config.appPassword);
+            }
             // 保存权限配置
             await wsConfig.update('entitlements.appSandbox', config.entAppSandbox, vscode.ConfigurationTarget.Workspace);
             await wsConfig.update('entitlements.networkClient', config.entNetworkClient, vscode.ConfigurationTarget.Workspace);
@@ -717,6 +722,11 @@ export class MacOSPackageConfigProvider {
                             <input type="text" class="form-input" id="teamId" placeholder="XXXXXXXXXX">
                         </div>
                     </div>
+                    <div class="form-row">
+                        <label class="form-label">App 专用密码</label>
+                        <input type="password" class="form-input" id="appPassword" placeholder="xxxx-xxxx-xxxx-xxxx">
+                        <div class="form-hint">保存在 VS Code 安全存储中，留空则保留已保存的密码</div>
+                    </div>
                 </div>
             </div>
         </div>
@@ -769,6 +779,8 @@ export class MacOSPackageConfigProvider {
             document.getElementById('notarize').checked = config.notarize;
             document.getElementById('appleId').value = config.appleId || '';
             document.getElementById('teamId').value = config.teamId || '';
+            document.getElementById('appPassword').value = '';
+            document.getElementById('appPassword').placeholder = config.appPasswordSaved ? '已保存' : 'xxxx-xxxx-xxxx-xxxx';
 
             // 加载权限配置
             document.getElementById('entAppSandbox').checked = config.entAppSandbox || false;
@@ -872,6 +884,7 @@ export class MacOSPackageConfigProvider {
                 notarize: document.getElementById('notarize').checked,
                 appleId: document.getElementById('appleId').value,
                 teamId: document.getElementById('teamId').value,
+                appPassword: document.getElementById('appPassword').value,
                 // 权限配置
                 entAppSandbox: document.getElementById('entAppSandbox').checked,
                 entNetworkClient: document.getElementById('entNetworkClient').checked,
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+
+/**
+ * Output channel that forwards everything to another channel; subclasses override the parts they change.
+ * The wrapped channel is shared, so dispose() leaves it to its owner.
+ */
+export class ForwardingOutputChannel implements vscode.OutputChannel {
+    constructor(protected readonly _channel: vscode.OutputChannel) { }
+
+    public get name(): string {
+        return this._channel.name;
+    }
+
+    public append(value: string) {
+        this._channel.append(value);
+    }
+
+    public appendLine(value: string) {
+        this._channel.appendLine(value);
+    }
+
+    public replace(value: string) {
+        this._channel.replace(value);
+    }
+
+    public clear() {
+        this._channel.clear();
+    }
+
+    public show(preserveFocus?: boolean): void;
+    public show(column?: vscode.ViewColumn, preserveFocus?: boolean): void;
+    public show(columnOrPreserveFocus?: vscode.ViewColumn | boolean, preserveFocus?: boolean) {
+        if (typeof columnOrPreserveFocus === 'number') {
+            this._channel.show(columnOrPreserveFocus, preserveFocus);
+        } else {
+            this._channel.show(columnOrPreserveFocus);
+        }
+    }
+
+    public hide() {
+        this._channel.hide();
+    }
+
+    public dispose() {
+        // 共享通道，由调用方释放
+    }
+}
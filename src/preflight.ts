@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { openRemoteSession, shellQuote, DeployConfig, RemoteSession } from './deployer';
+import { TargetRuntime } from './crossCompile/types';
+import { getDirectorySize, formatSize } from './publisher';
+import { listRemoteRuntimes, getRequiredFrameworks, getRuntimeChannel, findCompatibleRuntime } from './dotnetRuntime';
+
+export type PreflightStatus = 'pass' | 'fail' | 'warn';
+
+/**
+ * Result of one pre-flight check, shown in the sidebar
+ */
+export interface PreflightCheck {
+    name: string;
+    status: PreflightStatus;
+    message: string;
+}
+
+export interface PreflightOptions {
+    /** Publish output that will be uploaded */
+    localPath: string;
+    assemblyName: string;
+    runtime: string;
+    selfContained: boolean;
+    invariantGlobalization: boolean;
+    /** e.g. net8.0, used to find a matching shared runtime */
+    targetFramework?: string;
+    /** ASP.NET Core apps also need Microsoft.AspNetCore.App */
+    webProject: boolean;
+    /** Runtime install directory (runtimeInstall.installDir), searched besides the usual locations */
+    runtimeDir?: string;
+}
+
+/**
+ * Runtime identifier matching a server
+ */
+export interface DetectedRuntime {
+    runtime: TargetRuntime;
+    /** e.g. "Alpine Linux v3.19 (aarch64, musl)" */
+    description: string;
+}
+
+/**
+ * OS, CPU and C library reported by the server
+ */
+interface ServerPlatform {
+    /** uname -s */
+    os: string;
+    /** uname -m */
+    machine: string;
+    musl: boolean;
+    /** PRETTY_NAME from /etc/os-release */
+    distribution?: string;
+}
+
+/** uname -m -> RID architecture */
+const UNAME_ARCHITECTURES: Record<string, string> = {
+    'x86_64': 'x64',
+    'amd64': 'x64',
+    'aarch64': 'arm64',
+    'arm64': 'arm64',
+    'armv7l': 'arm',
+    'armv6l': 'arm',
+    'i386': 'x86',
+    'i686': 'x86'
+};
+
+/**
+ * Map `uname -m` output to the architecture part of a RID; undefined for unknown machines
+ */
+export function getRidArchitecture(machine: string): string | undefined {
+    return UNAME_ARCHITECTURES[machine.trim().toLowerCase()];
+}
+
+/**
+ * Whether `ldd --version` output (stdout and stderr) comes from musl libc
+ */
+export function isMuslLdd(output: string): boolean {
+    return /musl/i.test(output);
+}
+
+/**
+ * Parse /etc/os-release (KEY=value lines, values optionally quoted)
+ */
+function parseOsRelease(content: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^([A-Z_]+)=(.*)$/);
+        if (match) {
+            fields[match[1]] = match[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+        }
+    }
+    return fields;
+}
+
+async function readServerPlatform(session: RemoteSession): Promise<ServerPlatform> {
+    // musl 的 ldd --version 输出到 stderr 且退出码非零
+    const result = await session.exec(
+        'uname -s; uname -m; echo ---; cat /etc/os-release 2>/dev/null; echo ---; ldd --version 2>&1; ls /lib/ld-musl-* 2>/dev/null'
+    );
+    const [uname, osRelease = '', ldd = ''] = result.stdout.split(/^---$/m);
+    const [os = '', machine = ''] = uname.trim().split(/\r?\n/);
+    const release = parseOsRelease(osRelease);
+
+    return {
+        os,
+        machine,
+        musl: isMuslLdd(ldd) || release.ID === 'alpine',
+        distribution: release.PRETTY_NAME
+    };
+}
+
+/**
+ * Free space and write permission of the app directory, or of its nearest existing parent
+ */
+async function checkDiskAndPermission(
+    session: RemoteSession,
+    config: DeployConfig,
+    options: PreflightOptions
+): Promise<PreflightCheck[]> {
+    const appDir = path.posix.join(config.remotePath, options.assemblyName);
+    const result = await session.exec(
+        `d=${shellQuote(appDir)}; while [ ! -e "$d" ]; do d=$(dirname "$d"); done; ` +
+        'echo "$d"; if [ -d "$d" ] && [ -w "$d" ]; then echo writable; else echo readonly; fi; df -Pk "$d" | tail -n 1'
+    );
+    const [dir, access, df] = result.stdout.trim().split(/\r?\n/);
+
+    const permission: PreflightCheck = access === 'writable'
+        ? { name: '写入权限', status: 'pass', message: `${config.username} 可写入 ${dir}` }
+        : { name: '写入权限', status: 'fail', message: `${config.username} 无法写入 ${dir || appDir}` };
+
+    // 打包上传时服务器上同时存在压缩包和解压后的文件
+    const publishSize = getDirectorySize(options.localPath);
+    const required = config.uploadStrategy === 'archive' ? publishSize * 2 : publishSize;
+    const availableKb = parseInt((df || '').trim().split(/\s+/)[3], 10);
+
+    let disk: PreflightCheck;
+    if (isNaN(availableKb)) {
+        disk = { name: '磁盘空间', status: 'warn', message: `无法读取 ${dir || appDir} 的可用空间` };
+    } else if (availableKb * 1024 < required) {
+        disk = { name: '磁盘空间', status: 'fail', message: `可用 ${formatSize(availableKb * 1024)}，需要 ${formatSize(required)}` };
+    } else {
+        disk = { name: '磁盘空间', status: 'pass', message: `可用 ${formatSize(availableKb * 1024)}，需要 ${formatSize(required)}` };
+    }
+
+    return [disk, permission];
+}
+
+/**
+ * Compare the server's OS, CPU architecture and C library with the selected RID
+ */
+async function checkPlatform(session: RemoteSession, options: PreflightOptions): Promise<PreflightCheck[]> {
+    const platform = await readServerPlatform(session);
+    const checks: PreflightCheck[] = [];
+
+    if (!options.runtime.startsWith('linux-')) {
+        checks.push({ name: '架构', status: 'fail', message: `${options.runtime} 不能在 ${platform.os || '服务器'} 上运行` });
+        return checks;
+    }
+
+    const expected = options.runtime.split('-').pop();
+    const actual = getRidArchitecture(platform.machine);
+    if (!actual) {
+        checks.push({ name: '架构', status: 'warn', message: `未知的服务器架构 ${platform.machine}` });
+    } else if (actual !== expected) {
+        checks.push({ name: '架构', status: 'fail', message: `服务器为 ${platform.machine} (${actual})，所选运行时为 ${options.runtime}` });
+    } else {
+        checks.push({ name: '架构', status: 'pass', message: `${platform.machine} 与 ${options.runtime} 匹配` });
+    }
+
+    const targetMusl = options.runtime.startsWith('linux-musl-');
+    if (platform.musl === targetMusl) {
+        checks.push({ name: 'C 库', status: 'pass', message: platform.musl ? 'musl' : 'glibc' });
+    } else {
+        checks.push({
+            name: 'C 库',
+            status: 'fail',
+            message: platform.musl
+                ? `服务器使用 musl (如 Alpine)，请选择 linux-musl-${expected}`
+                : `服务器使用 glibc，${options.runtime} 仅适用于 musl 系统`
+        });
+    }
+
+    return checks;
+}
+
+/**
+ * Look for a shared library in the loader cache or the usual library directories
+ */
+async function hasLibrary(session: RemoteSession, name: string): Promise<boolean> {
+    const result = await session.exec(
+        `(ldconfig -p 2>/dev/null | grep -q ${shellQuote(name + '.so')}) || ` +
+        `ls /lib/${name}.so* /usr/lib/${name}.so* /lib64/${name}.so* /usr/lib64/${name}.so* ` +
+        `/lib/*-linux-gnu/${name}.so* /usr/lib/*-linux-gnu/${name}.so* >/dev/null 2>&1`
+    );
+    return result.code === 0;
+}
+
+/**
+ * Native libraries .NET loads at runtime
+ */
+async function checkLibraries(session: RemoteSession, options: PreflightOptions): Promise<PreflightCheck[]> {
+    const checks: PreflightCheck[] = [];
+
+    if (!options.invariantGlobalization) {
+        checks.push(await hasLibrary(session, 'libicuuc')
+            ? { name: 'libicu', status: 'pass', message: '已安装' }
+            : { name: 'libicu', status: 'fail', message: '未安装 ICU，请安装 libicu 或启用 InvariantGlobalization' });
+    }
+
+    // 自包含发布会带上运行时，但同样依赖系统的 OpenSSL 和 C++ 运行库，仅在框架依赖发布时强制要求
+    if (!options.selfContained) {
+        for (const [library, label] of [['libssl', 'OpenSSL'], ['libstdc++', 'libstdc++']]) {
+            checks.push(await hasLibrary(session, library)
+                ? { name: label, status: 'pass', message: '已安装' }
+                : { name: label, status: 'fail', message: `未安装 ${label}` });
+        }
+    }
+
+    return checks;
+}
+
+/**
+ * Shared frameworks the app needs for a framework-dependent publish
+ */
+async function checkRuntime(session: RemoteSession, options: PreflightOptions): Promise<PreflightCheck[]> {
+    const installed = await listRemoteRuntimes(session, options.runtimeDir);
+    if (!installed) {
+        return [{ name: '.NET 运行时', status: 'fail', message: '服务器未安装 .NET，请使用自包含发布或先安装运行时' }];
+    }
+
+    const channel = getRuntimeChannel(options.targetFramework);
+    return getRequiredFrameworks(options.webProject).map((framework): PreflightCheck => {
+        const versions = installed.filter(runtime => runtime.name === framework).map(runtime => runtime.version);
+        if (!channel) {
+            return versions.length > 0
+                ? { name: framework, status: 'warn', message: `已安装 ${versions.join(', ')}，无法确定项目所需版本` }
+                : { name: framework, status: 'fail', message: '未安装' };
+        }
+
+        const match = findCompatibleRuntime(installed, framework, channel);
+        return match
+            ? { name: framework, status: 'pass', message: `${match.version} 满足 ${options.targetFramework}` }
+            : { name: framework, status: 'fail', message: `需要 ${channel}，已安装: ${versions.join(', ') || '无'}` };
+    });
+}
+
+/**
+ * Check the server before uploading: disk space, write permission, architecture, C library,
+ * native libraries and (for framework-dependent publishes) the .NET runtime
+ */
+export async function runPreflightChecks(
+    config: DeployConfig,
+    options: PreflightOptions,
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
+): Promise<PreflightCheck[]> {
+    outputChannel.appendLine(`[Preflight] Checking ${config.host}...`);
+
+    let session: RemoteSession;
+    try {
+        session = await openRemoteSession(config, outputChannel);
+    } catch (err: any) {
+        outputChannel.appendLine(`[Preflight] ✗ SSH Error: ${err.message}`);
+        return [{ name: 'SSH 连接', status: 'fail', message: err.message }];
+    }
+
+    const cancelListener = token?.onCancellationRequested(() => session.close());
+    const checks: PreflightCheck[] = [];
+    try {
+        checks.push(...await checkDiskAndPermission(session, config, options));
+        checks.push(...await checkPlatform(session, options));
+        checks.push(...await checkLibraries(session, options));
+        if (!options.selfContained) {
+            checks.push(...await checkRuntime(session, options));
+        }
+    } catch (err: any) {
+        checks.push({ name: '预检', status: 'fail', message: err.message });
+    } finally {
+        cancelListener?.dispose();
+        session.close();
+    }
+
+    const icons: Record<PreflightStatus, string> = { pass: '✓', fail: '✗', warn: '⚠️' };
+    for (const check of checks) {
+        outputChannel.appendLine(`[Preflight] ${icons[check.status]} ${check.name}: ${check.message}`);
+    }
+    return checks;
+}
+
+/**
+ * Pick the runtime identifier for a server from `uname -m`, /etc/os-release and `ldd --version`
+ */
+export async function detectServerRuntime(config: DeployConfig, outputChannel: vscode.OutputChannel): Promise<DetectedRuntime> {
+    const session = await openRemoteSession(config, outputChannel);
+    try {
+        const platform = await readServerPlatform(session);
+        if (platform.os !== 'Linux') {
+            throw new Error(`不支持的服务器系统: ${platform.os || '未知'}`);
+        }
+
+        const architecture = getRidArchitecture(platform.machine);
+        if (architecture !== 'x64' && architecture !== 'arm64') {
+            throw new Error(`不支持的服务器架构: ${platform.machine || '未知'}`);
+        }
+
+        const runtime: TargetRuntime = platform.musl ? `linux-musl-${architecture}` : `linux-${architecture}`;
+        const description = `${platform.distribution || platform.os} (${platform.machine}, ${platform.musl ? 'musl' : 'glibc'})`;
+        outputChannel.appendLine(`[Preflight] Detected ${runtime} on ${config.host}: ${description}`);
+        return { runtime, description };
+    } finally {
+        session.close();
+    }
+}
@@ -0,0 +1,30 @@
+import { spawn, ChildProcess, SpawnOptions } from 'child_process';
+
+/**
+ * Spawn options that let killProcessTree() reach grandchildren.
+ * On POSIX the child leads its own process group; `shell: true` would otherwise leave dotnet/upx running after the shell is killed.
+ */
+export function getKillableSpawnOptions<T extends SpawnOptions>(options: T): T {
+    return process.platform === 'win32' ? options : { ...options, detached: true };
+}
+
+/**
+ * Kill a child process together with everything it started
+ */
+export function killProcessTree(proc: ChildProcess): void {
+    if (proc.pid === undefined || proc.exitCode !== null || proc.signalCode !== null) {
+        return;
+    }
+
+    if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F'], { windowsHide: true }).on('error', () => proc.kill());
+        return;
+    }
+
+    try {
+        process.kill(-proc.pid, 'SIGTERM');
+    } catch {
+        // 不是进程组组长 (未使用 getKillableSpawnOptions 启动) 时只结束子进程本身
+        proc.kill('SIGTERM');
+    }
+}
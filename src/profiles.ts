@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SshEndpoint } from './deployer';
+import { HealthCheckConfig } from './healthCheck';
+import { SystemdOptions } from './systemd';
+
+/**
+ * One target of a multi-host profile; fields not set fall back to the profile's server settings
+ */
+export type ProfileHost = string | (Partial<SshEndpoint> & { host: string });
+
+/**
+ * Server settings of a deployment profile
+ */
+export interface ProfileServer extends Partial<SshEndpoint> {
+    remotePath?: string;
+    /** Deploy the same publish output to every host in this list instead of `host` */
+    hosts?: ProfileHost[];
+    jumpHosts?: SshEndpoint[];
+    incrementalUpload?: boolean;
+    atomicRelease?: boolean;
+    uploadStrategy?: 'files' | 'archive';
+    mirror?: boolean;
+    protectedPaths?: string[];
+}
+
+/**
+ * Publish options of a deployment profile
+ */
+export interface ProfilePublish {
+    runtime?: string;
+    selfContained?: boolean;
+    singleFile?: boolean;
+    publishAot?: boolean;
+    disableSymbols?: boolean;
+    stripSymbols?: boolean;
+    invariantGlobalization?: boolean;
+}
+
+/**
+ * How a multi-host profile is rolled out
+ */
+export interface ProfileRollout {
+    mode?: 'parallel' | 'rolling';
+    /** Hosts per batch in rolling mode */
+    batchSize?: number;
+    /** Pause between rolling batches */
+    pauseSeconds?: number;
+}
+
+/**
+ * Server specific configuration written next to the app on every deploy
+ */
+export interface ProfileAppConfig {
+    /** Set as ASPNETCORE_ENVIRONMENT / DOTNET_ENVIRONMENT and names the appsettings.{environment}.json override */
+    environment?: string;
+    /** Environment variables written to the .env file on the server */
+    variables?: Record<string, string>;
+    /** Names of environment variables whose values are kept in SecretStorage */
+    secrets?: string[];
+    /** Content of appsettings.{environment}.json on the server */
+    appsettings?: Record<string, unknown>;
+}
+
+/**
+ * A named deployment target (dev / staging / prod ...)
+ */
+export interface DeployProfile {
+    name: string;
+    server?: ProfileServer;
+    publish?: ProfilePublish;
+    afterUploadCommand?: string;
+    rollout?: ProfileRollout;
+    healthCheck?: HealthCheckConfig;
+    systemd?: Partial<SystemdOptions>;
+    appConfig?: ProfileAppConfig;
+    /** Refuse deploys from a dirty tree or an unpushed commit unless confirmed */
+    protected?: boolean;
+}
+
+interface ProfilesFile {
+    profiles: Record<string, Omit<DeployProfile, 'name'>>;
+}
+
+const PROFILES_FILE = path.join('.vscode', 'dotnet-deploy.json');
+
+/**
+ * Path of the profiles file in the first workspace folder
+ */
+export function getProfilesPath(): string | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? path.join(folder.uri.fsPath, PROFILES_FILE) : undefined;
+}
+
+function readProfilesFile(filePath: string): ProfilesFile {
+    if (!fs.existsSync(filePath)) {
+        return { profiles: {} };
+    }
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return { ...content, profiles: content.profiles || {} };
+}
+
+function writeProfilesFile(filePath: string, file: ProfilesFile): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(file, null, 4) + '\n', 'utf-8');
+}
+
+/**
+ * Load all profiles of the current workspace
+ */
+export function loadProfiles(): DeployProfile[] {
+    const filePath = getProfilesPath();
+    if (!filePath) {
+        return [];
+    }
+
+    const file = readProfilesFile(filePath);
+    return Object.entries(file.profiles).map(([name, profile]) => ({ ...profile, name }));
+}
+
+/**
+ * Find a profile by name
+ */
+export function getProfile(name: string): DeployProfile | undefined {
+    return loadProfiles().find(p => p.name === name);
+}
+
+/**
+ * Report option combinations of a profile that cannot work together
+ */
+export function checkProfileOptions(profile: DeployProfile, atomicRelease: boolean): string | undefined {
+    if (profile.healthCheck?.rollbackOnFailure && !atomicRelease) {
+        return `部署配置 "${profile.name}" 启用了 healthCheck.rollbackOnFailure，需要同时启用原子发布`;
+    }
+    return undefined;
+}
+
+/**
+ * Create or replace a profile, keeping any other keys already in the file
+ */
+export function saveProfile(profile: DeployProfile): void {
+    const filePath = getProfilesPath();
+    if (!filePath) {
+        throw new Error('未打开工作区');
+    }
+
+    const file = readProfilesFile(filePath);
+    const { name, ...rest } = profile;
+    const existing = file.profiles[name] || {};
+    file.profiles[name] = {
+        ...existing,
+        ...rest,
+        server: { ...existing.server, ...rest.server },
+        publish: { ...existing.publish, ...rest.publish },
+        systemd: existing.systemd || rest.systemd ? { ...existing.systemd, ...rest.systemd } : undefined,
+    };
+    writeProfilesFile(filePath, file);
+}
+
+/**
+ * Delete a profile by name
+ */
+export function deleteProfile(name: string): void {
+    const filePath = getProfilesPath();
+    if (!filePath || !fs.existsSync(filePath)) {
+        return;
+    }
+
+    const file = readProfilesFile(filePath);
+    delete file.profiles[name];
+    writeProfilesFile(filePath, file);
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { spawn } from 'child_process';
+import { getKillableSpawnOptions, killProcessTree } from './processTree';
 import {
     isCrossCompileNeeded,
     getCrossCompileTarget,
@@ -24,6 +25,7 @@ import {
     packageForMacOS,
     MacOSPackageOptions,
 } from './crossCompile/macosPackager';
+import { getVersionArgs, VersionStamp } from './versioning';
 
 /** 发布阶段 */
 export type PublishPhase = 'compile' | 'upx' | 'package';
@@ -46,6 +48,10 @@ export interface PublishOptions {
     upxLevel?: string;
     /** 是否启用交叉编译 (默认 true) */
     crossCompileEnabled?: boolean;
+    /** 程序集版本号，同时用于 macOS 打包 */
+    version?: VersionStamp;
+    /** 已由 restoreRuntimes() 还原过依赖时跳过还原 */
+    noRestore?: boolean;
     /** 状态回调 */
     onStatus?: StatusCallback;
 }
@@ -60,11 +66,13 @@ export interface PublishResult {
 }
 
 /**
- * Execute dotnet publish with the given options
+ * Execute dotnet publish with the given options.
+ * Cancelling the token kills dotnet (or upx) and resolves with error 'Cancelled'.
  */
 export async function publish(
     options: PublishOptions,
-    outputChannel: vscode.OutputChannel
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
 ): Promise<PublishResult> {
     const projectDir = path.dirname(options.projectPath);
     const projectName = path.basename(options.projectPath, '.csproj');
@@ -78,6 +86,10 @@ export async function publish(
         '-r', options.runtime,
     ];
 
+    if (options.noRestore) {
+        args.push('--no-restore');
+    }
+
     // 检查是否需要交叉编译
     const needsCrossCompile = isCrossCompileNeeded(options.runtime);
     const crossCompileEnabled = options.crossCompileEnabled !== false;
@@ -143,21 +155,41 @@ export async function publish(
         args.push('-p:InvariantGlobalization=true');
     }
 
+    if (options.version) {
+        args.push(...getVersionArgs(options.version));
+    }
+
     outputChannel.appendLine(`[Publisher] Running: dotnet ${args.join(' ')}`);
     outputChannel.appendLine('');
 
     // 通知状态：编译中
     options.onStatus?.('compile', '正在编译...');
 
+    const cancelled = (): PublishResult => {
+        outputChannel.appendLine(`[Publisher] ✗ Cancelled`);
+        return {
+            success: false,
+            outputPath: publishDir,
+            assemblyName: projectName,
+            error: 'Cancelled',
+            crossCompileWarning,
+        };
+    };
+
+    if (token?.isCancellationRequested) {
+        return cancelled();
+    }
+
     return new Promise((resolve) => {
         // 合并环境变量
         const processEnv = { ...process.env, ...extraEnv };
 
-        const proc = spawn('dotnet', args, {
+        const proc = spawn('dotnet', args, getKillableSpawnOptions({
             cwd: projectDir,
             shell: true,
             env: processEnv,
-        });
+        }));
+        const cancelListener = token?.onCancellationRequested(() => killProcessTree(proc));
 
         let stdout = '';
         let stderr = '';
@@ -175,6 +207,12 @@ export async function publish(
         });
 
         proc.on('close', async (code) => {
+            cancelListener?.dispose();
+            if (token?.isCancellationRequested) {
+                resolve(cancelled());
+                return;
+            }
+
             if (code === 0) {
                 outputChannel.appendLine('');
                 outputChannel.appendLine(`[Publisher] ✓ Published successfully to ${publishDir}`);
@@ -183,15 +221,20 @@ export async function publish(
                 const isUPXSupported = options.runtime.startsWith('linux-') || options.runtime.startsWith('win-');
                 if (options.upxEnabled && isUPXSupported) {
                     options.onStatus?.('upx', '正在压缩...');
-                    await compressWithUpx(publishDir, projectName, options.upxLevel || '--best', outputChannel);
+                    await compressWithUpx(publishDir, projectName, options.upxLevel || '--best', outputChannel, token);
                 } else if (options.upxEnabled && !isUPXSupported) {
                     outputChannel.appendLine(`[UPX] ⚠️ UPX 不支持 ${options.runtime} 目标，跳过压缩`);
                 }
 
+                if (token?.isCancellationRequested) {
+                    resolve(cancelled());
+                    return;
+                }
+
                 // macOS 打包
                 let macosPackagePath: string | undefined;
                 if (isMacOS() && options.runtime.startsWith('osx-')) {
-                    const macosConfig = getMacOSPackageConfig();
+                    const macosConfig = await getMacOSPackageConfig();
                     if (macosConfig) {
                         options.onStatus?.('package', '正在打包...');
                         outputChannel.appendLine('');
@@ -206,6 +249,12 @@ export async function publish(
                                 outputDir: publishDir,
                                 appName: macosConfig.appName || projectName,
                             };
+                            // 统一的版本号优先于 macos.version / macos.buildNumber
+                            if (options.version) {
+                                packageOptions.version = options.version.numericVersion;
+                                packageOptions.shortVersion = options.version.numericVersion;
+                                packageOptions.buildNumber = String(options.version.buildNumber);
+                            }
 
                             const packageResult = await packageForMacOS(packageOptions, outputChannel);
                             if (packageResult.success) {
@@ -240,6 +289,7 @@ export async function publish(
         });
 
         proc.on('error', (err) => {
+            cancelListener?.dispose();
             outputChannel.appendLine(`[Publisher] ✗ Error: ${err.message}`);
             resolve({
                 success: false,
@@ -252,6 +302,47 @@ export async function publish(
     });
 }
 
+/**
+ * Restore the project once for several runtimes so their publishes can run side by side with --no-restore
+ * (each restore rewrites obj/project.assets.json for a single runtime)
+ */
+export async function restoreRuntimes(
+    projectPath: string,
+    runtimes: string[],
+    options: Pick<PublishOptions, 'selfContained' | 'publishAot'>,
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
+): Promise<boolean> {
+    // MSBuild 在 -p: 中把分号当作属性分隔符，值需要带引号；外层引号防止 shell 把分号当作命令分隔符
+    const args = ['restore', projectPath, `"-p:RuntimeIdentifiers=\\"${runtimes.join(';')}\\""`];
+    if (options.selfContained) {
+        args.push('-p:SelfContained=true');
+    }
+    if (options.publishAot) {
+        args.push('-p:PublishAot=true');
+    }
+    outputChannel.appendLine(`[Publisher] Running: dotnet ${args.join(' ')}`);
+
+    return new Promise(resolve => {
+        const proc = spawn('dotnet', args, getKillableSpawnOptions({ cwd: path.dirname(projectPath), shell: true }));
+        const cancelListener = token?.onCancellationRequested(() => killProcessTree(proc));
+        proc.stdout.on('data', data => outputChannel.append(data.toString()));
+        proc.stderr.on('data', data => outputChannel.append(data.toString()));
+        proc.on('close', code => {
+            cancelListener?.dispose();
+            if (code !== 0 && !token?.isCancellationRequested) {
+                outputChannel.appendLine(`[Publisher] ✗ Restore failed with code ${code}`);
+            }
+            resolve(code === 0 && !token?.isCancellationRequested);
+        });
+        proc.on('error', err => {
+            cancelListener?.dispose();
+            outputChannel.appendLine(`[Publisher] ✗ Error: ${err.message}`);
+            resolve(false);
+        });
+    });
+}
+
 /**
  * 准备交叉编译参数
  */
@@ -301,6 +392,28 @@ async function prepareCrossCompileArgs(
     return { success: true, args: [] };
 }
 
+/**
+ * 发布目录中所有文件的总大小
+ */
+export function getDirectorySize(dirPath: string): number {
+    let size = 0;
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+        const fullPath = path.join(dirPath, entry.name);
+        size += entry.isDirectory() ? getDirectorySize(fullPath) : fs.statSync(fullPath).size;
+    }
+    return size;
+}
+
+/**
+ * 以 MB 或 GB 显示的大小
+ */
+export function formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024 * 1024) {
+        return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+    }
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
 /**
  * 查找可执行文件
  */
@@ -320,7 +433,13 @@ function findExecutable(dir: string, projectName: string): string | undefined {
     return undefined;
 }
 
-async function compressWithUpx(dir: string, projectName: string, level: string, outputChannel: vscode.OutputChannel) {
+async function compressWithUpx(
+    dir: string,
+    projectName: string,
+    level: string,
+    outputChannel: vscode.OutputChannel,
+    token?: vscode.CancellationToken
+) {
     const fs = require('fs');
     // Find executable file
     // In single-file mode, it's projectName (no ext on linux/mac, .exe on win)
@@ -338,13 +457,18 @@ async function compressWithUpx(dir: string, projectName: string, level: string,
 
     return new Promise<void>((resolve) => {
         const args = [level, targetPath];
-        const upx = spawn('upx', args, { cwd: dir, shell: true });
+        const upx = spawn('upx', args, getKillableSpawnOptions({ cwd: dir, shell: true }));
+        // upx 被中断时会删除未写完的临时文件，原可执行文件保持不变
+        const cancelListener = token?.onCancellationRequested(() => killProcessTree(upx));
 
         upx.stdout.on('data', (d) => outputChannel.append(d.toString()));
         upx.stderr.on('data', (d) => outputChannel.append(d.toString()));
 
         upx.on('close', (code) => {
-            if (code === 0) {
+            cancelListener?.dispose();
+            if (token?.isCancellationRequested) {
+                outputChannel.appendLine(`[UPX] ✗ Cancelled`);
+            } else if (code === 0) {
                 outputChannel.appendLine(`[UPX] ✓ Compression successful`);
             } else {
                 outputChannel.appendLine(`[UPX] ✗ Compression failed with code ${code}`);
@@ -352,6 +476,7 @@ async function compressWithUpx(dir: string, projectName: string, level: string,
             resolve();
         });
         upx.on('error', (err) => {
+            cancelListener?.dispose();
             outputChannel.appendLine(`[UPX] ✗ Error: ${err.message}`);
             resolve();
         });
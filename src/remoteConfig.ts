@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { shellQuote, RemoteConfigFiles, RemoteSession } from './deployer';
+import { ProfileAppConfig, DeployProfile } from './profiles';
+import { getEnvSecret, storeEnvSecret } from './secrets';
+
+/**
+ * Profile configuration with secret values filled in from SecretStorage
+ */
+export interface ResolvedAppConfig {
+    variables: Record<string, string>;
+    /** Names whose values are masked in diffs and logs */
+    secretNames: Set<string>;
+    appsettings?: { fileName: string; values: Record<string, unknown> };
+}
+
+/**
+ * One difference between the remote configuration and the profile
+ */
+export interface ConfigChange {
+    /** .env or appsettings.{Environment}.json */
+    file: string;
+    /** Variable name, or the setting path (Logging:LogLevel:Default) */
+    key: string;
+    kind: 'added' | 'removed' | 'changed';
+    oldValue?: string;
+    newValue?: string;
+    secret: boolean;
+}
+
+/**
+ * Whether the profile sets any environment variable (the .env file is only written then)
+ */
+export function hasEnvironmentVariables(appConfig: ProfileAppConfig | undefined): boolean {
+    return !!appConfig && (!!appConfig.environment
+        || Object.keys(appConfig.variables || {}).length > 0
+        || (appConfig.secrets || []).length > 0);
+}
+
+/**
+ * Read secret values, asking for and saving the ones not stored yet.
+ * Returns undefined when the profile has no app configuration; throws when an input is cancelled.
+ */
+export async function resolveAppConfig(profile: DeployProfile): Promise<ResolvedAppConfig | undefined> {
+    const appConfig = profile.appConfig;
+    if (!appConfig || (!hasEnvironmentVariables(appConfig) && !appConfig.appsettings)) {
+        return undefined;
+    }
+
+    const variables: Record<string, string> = {};
+    if (appConfig.environment) {
+        variables.ASPNETCORE_ENVIRONMENT = appConfig.environment;
+        variables.DOTNET_ENVIRONMENT = appConfig.environment;
+    }
+    Object.assign(variables, appConfig.variables);
+
+    for (const name of appConfig.secrets || []) {
+        let value = await getEnvSecret(profile.name, name);
+        if (value === undefined) {
+            value = await vscode.window.showInputBox({
+                prompt: `请输入 ${profile.name} 的环境变量 ${name} (保存在 VS Code 安全存储中)`,
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (value === undefined) {
+                throw new Error(`未提供环境变量 ${name} 的值`);
+            }
+            await storeEnvSecret(profile.name, name, value);
+        }
+        variables[name] = value;
+    }
+
+    let appsettings: ResolvedAppConfig['appsettings'];
+    if (appConfig.appsettings) {
+        if (!appConfig.environment) {
+            throw new Error(`配置 ${profile.name} 设置了 appsettings，但缺少 environment`);
+        }
+        appsettings = { fileName: `appsettings.${appConfig.environment}.json`, values: appConfig.appsettings };
+    }
+
+    return {
+        variables: hasEnvironmentVariables(appConfig) ? variables : {},
+        secretNames: new Set(appConfig.secrets || []),
+        appsettings
+    };
+}
+
+/**
+ * Quote a value for a systemd EnvironmentFile (also readable by `set -a; . .env`)
+ */
+export function formatEnvValue(value: string): string {
+    return /^[\w@%+=:,./-]*$/.test(value)
+        ? value
+        : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\$/g, '\\$').replace(/`/g, '\\`').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Parse a .env file written by formatEnvValue (KEY=value lines, # comments)
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)=(.*)$/);
+        if (!match) {
+            continue;
+        }
+        let value = match[2].trim();
+        const quoted = value.match(/^"(.*)"$/) || value.match(/^'(.*)'$/);
+        if (quoted) {
+            value = quoted[1].replace(/\\(.)/g, (_, char: string) => char === 'n' ? '\n' : char);
+        }
+        variables[match[1]] = value;
+    }
+    return variables;
+}
+
+/**
+ * Render the files deploy() writes to the server
+ */
+export function renderConfigFiles(resolved: ResolvedAppConfig): RemoteConfigFiles {
+    const files: RemoteConfigFiles = {};
+    const entries = Object.entries(resolved.variables);
+    if (entries.length > 0) {
+        files.envFile = '# Managed by Dotnet Deploy, changes are overwritten on the next deploy\n' +
+            entries.map(([key, value]) => `${key}=${formatEnvValue(value)}`).join('\n') + '\n';
+    }
+    if (resolved.appsettings) {
+        files.appsettings = {
+            fileName: resolved.appsettings.fileName,
+            content: JSON.stringify(resolved.appsettings.values, null, 2) + '\n'
+        };
+    }
+    return files;
+}
+
+/**
+ * Flatten JSON into configuration paths, the way .NET configuration keys them (Logging:LogLevel:Default)
+ */
+function flattenSettings(value: unknown, prefix = '', result: Record<string, string> = {}): Record<string, string> {
+    if (value !== null && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+            flattenSettings(child, prefix ? `${prefix}:${key}` : key, result);
+        }
+    } else if (prefix) {
+        result[prefix] = JSON.stringify(value);
+    }
+    return result;
+}
+
+function diffValues(file: string, current: Record<string, string>, next: Record<string, string>, secretNames: Set<string>): ConfigChange[] {
+    const changes: ConfigChange[] = [];
+    for (const [key, newValue] of Object.entries(next)) {
+        const oldValue = current[key];
+        if (oldValue === undefined) {
+            changes.push({ file, key, kind: 'added', newValue, secret: secretNames.has(key) });
+        } else if (oldValue !== newValue) {
+            changes.push({ file, key, kind: 'changed', oldValue, newValue, secret: secretNames.has(key) });
+        }
+    }
+    for (const [key, oldValue] of Object.entries(current)) {
+        if (!(key in next)) {
+            changes.push({ file, key, kind: 'removed', oldValue, secret: secretNames.has(key) });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Compare the .env file and appsettings override on the server with the profile
+ */
+export async function diffRemoteConfig(
+    session: RemoteSession,
+    envFilePath: string,
+    appDir: string,
+    resolved: ResolvedAppConfig
+): Promise<ConfigChange[]> {
+    const changes: ConfigChange[] = [];
+
+    if (Object.keys(resolved.variables).length > 0) {
+        const result = await session.exec(`cat ${shellQuote(envFilePath)} 2>/dev/null`);
+        const current = result.code === 0 ? parseEnvFile(result.stdout) : {};
+        changes.push(...diffValues('.env', current, resolved.variables, resolved.secretNames));
+    }
+
+    if (resolved.appsettings) {
+        const { fileName, values } = resolved.appsettings;
+        const result = await session.exec(`cat ${shellQuote(`${appDir}/${fileName}`)} 2>/dev/null`);
+        let current: Record<string, string> = {};
+        if (result.code === 0) {
+            try {
+                current = flattenSettings(JSON.parse(result.stdout));
+            } catch {
+                // 服务器上的文件不是合法 JSON 时整体视为新增
+            }
+        }
+        changes.push(...diffValues(fileName, current, flattenSettings(values), new Set()));
+    }
+
+    return changes;
+}
+
+/**
+ * One line per change; secret values are never shown
+ */
+export function describeConfigChange(change: ConfigChange): string {
+    const show = (value: string | undefined) => change.secret ? '******' : value;
+    switch (change.kind) {
+        case 'added':
+            return `+ ${change.file} ${change.key} = ${show(change.newValue)}`;
+        case 'removed':
+            return `- ${change.file} ${change.key} (${show(change.oldValue)})`;
+        default:
+            return `~ ${change.file} ${change.key}: ${show(change.oldValue)} → ${show(change.newValue)}`;
+    }
+}
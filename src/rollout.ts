@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import { deploy, executeRemote, sendTelegramNotification, describeSource, DeployConfig } from './deployer';
+import { verifyDeployment, HealthCheckConfig } from './healthCheck';
+import { ForwardingOutputChannel } from './outputChannel';
+
+export type HostDeployStatus = 'pending' | 'uploading' | 'starting' | 'checking' | 'success' | 'failed' | 'skipped';
+
+/**
+ * Progress of one host in a multi-host deploy
+ */
+export interface HostDeployState {
+    host: string;
+    status: HostDeployStatus;
+    error?: string;
+    /** Upload progress in percent while uploading */
+    progress?: number;
+    /** Bytes sent so far when the upload size is not known yet (archive upload) */
+    uploadedBytes?: number;
+}
+
+export interface RolloutOptions {
+    mode: 'parallel' | 'rolling';
+    /** Hosts per batch in rolling mode (parallel mode deploys every host in one batch) */
+    batchSize: number;
+    pauseSeconds: number;
+    /** Checked on every host after its start command; a failure stops the rollout */
+    healthCheck?: HealthCheckConfig;
+}
+
+/**
+ * Label a host by host[:port] so parallel log lines can be told apart
+ */
+function getHostLabel(config: DeployConfig): string {
+    return config.port && config.port !== 22 ? `${config.host}:${config.port}` : config.host;
+}
+
+/**
+ * Shared output channel that prefixes every line with the host label
+ */
+class HostOutputChannel extends ForwardingOutputChannel {
+    constructor(channel: vscode.OutputChannel, private readonly _label: string) {
+        super(channel);
+    }
+
+    public appendLine(value: string) {
+        this._channel.appendLine(`[${this._label}] ${value}`);
+    }
+}
+
+/**
+ * Wait between batches; returns early when the rollout is cancelled
+ */
+function sleep(ms: number, token?: vscode.CancellationToken): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms);
+        const cancelListener = token?.onCancellationRequested(done);
+        function done() {
+            clearTimeout(timer);
+            cancelListener?.dispose();
+            resolve();
+        }
+    });
+}
+
+/**
+ * Upload one publish output and run the start command on several hosts.
+ * Hosts are deployed batch by batch; once a batch has a failure the remaining hosts are skipped.
+ */
+export async function deployToHosts(
+    configs: DeployConfig[],
+    localPath: string,
+    assemblyName: string,
+    options: RolloutOptions,
+    outputChannel: vscode.OutputChannel,
+    onUpdate: (states: HostDeployState[]) => void,
+    token?: vscode.CancellationToken
+): Promise<HostDeployState[]> {
+    const states: HostDeployState[] = configs.map(config => ({ host: getHostLabel(config), status: 'pending' }));
+    const update = (index: number, status: HostDeployStatus, error?: string, upload?: Pick<HostDeployState, 'progress' | 'uploadedBytes'>) => {
+        states[index] = { host: states[index].host, status, error, ...upload };
+        onUpdate(states.map(state => ({ ...state })));
+    };
+
+    const batchSize = options.mode === 'parallel'
+        ? configs.length
+        : Math.max(1, Math.floor(options.batchSize) || 1);
+
+    outputChannel.appendLine(`[Rollout] ${configs.length} hosts, ${options.mode} mode` +
+        (options.mode === 'rolling' ? `, batch size ${batchSize}` : ''));
+    onUpdate(states.map(state => ({ ...state })));
+
+    const deployHost = async (index: number) => {
+        const hostConfig = configs[index];
+        const hostChannel = new HostOutputChannel(outputChannel, states[index].host);
+
+        update(index, 'uploading');
+        // 单台主机不再各自发送 Telegram 通知，结束后统一发送汇总
+        const deployResult = await deploy(
+            { ...hostConfig, telegramEnabled: false },
+            localPath,
+            assemblyName,
+            hostChannel,
+            progress => update(index, 'uploading', undefined, progress.totalBytes > 0
+                ? { progress: Math.floor(progress.transferredBytes / progress.totalBytes * 100) }
+                : { uploadedBytes: progress.transferredBytes }),
+            token
+        );
+        if (!deployResult.success) {
+            update(index, 'failed', deployResult.error || '上传失败');
+            return;
+        }
+
+        update(index, 'starting');
+        const startResult = await executeRemote(hostConfig, assemblyName, hostChannel, token);
+        if (!startResult.success) {
+            update(index, 'failed', startResult.error || '启动失败');
+            return;
+        }
+
+        if (options.healthCheck) {
+            update(index, 'checking');
+            const health = await verifyDeployment(hostConfig, assemblyName, options.healthCheck, hostChannel, token);
+            if (!health.success) {
+                const rolledBack = health.rolledBackTo ? ` (已回滚到 ${health.rolledBackTo})` : '';
+                update(index, 'failed', `健康检查失败: ${health.error}${rolledBack}`);
+                return;
+            }
+        }
+
+        update(index, 'success');
+    };
+
+    for (let start = 0; start < configs.length; start += batchSize) {
+        if (token?.isCancellationRequested) {
+            for (let i = start; i < configs.length; i++) {
+                update(i, 'skipped');
+            }
+            outputChannel.appendLine('[Rollout] ✗ Cancelled, remaining hosts skipped');
+            break;
+        }
+
+        const batch = configs.slice(start, start + batchSize).map((_, offset) => start + offset);
+        if (options.mode === 'rolling') {
+            outputChannel.appendLine(`[Rollout] Batch ${start / batchSize + 1}: ${batch.map(i => states[i].host).join(', ')}`);
+        }
+
+        await Promise.all(batch.map(deployHost));
+
+        if (!token?.isCancellationRequested && batch.some(i => states[i].status === 'failed')) {
+            for (let i = start + batchSize; i < configs.length; i++) {
+                update(i, 'skipped');
+            }
+            outputChannel.appendLine('[Rollout] ✗ Stopped after failure, remaining hosts skipped');
+            break;
+        }
+
+        const hasMore = start + batchSize < configs.length;
+        if (hasMore && options.pauseSeconds > 0 && !token?.isCancellationRequested) {
+            outputChannel.appendLine(`[Rollout] Waiting ${options.pauseSeconds}s before next batch...`);
+            await sleep(options.pauseSeconds * 1000, token);
+        }
+    }
+
+    const succeeded = states.filter(state => state.status === 'success').length;
+    outputChannel.appendLine(`[Rollout] Done: ${succeeded}/${states.length} hosts succeeded`);
+
+    const telegram = configs[0];
+    if (telegram?.telegramEnabled && telegram.telegramBotToken && telegram.telegramChatId) {
+        const icons: Record<HostDeployStatus, string> = {
+            pending: '⏸', uploading: '⏳', starting: '⏳', checking: '⏳', success: '✅', failed: '❌', skipped: '⏭'
+        };
+        const lines = states.map(state => `${icons[state.status]} \`${state.host}\`` + (state.error ? ` - ${state.error}` : ''));
+        const title = succeeded === states.length ? '✅ *Deploy Successful*' : '❌ *Deploy Failed*';
+        await sendTelegramNotification(
+            telegram.telegramBotToken,
+            telegram.telegramChatId,
+            `${title}\n\nProject: \`${assemblyName}\`\nHosts: ${succeeded}/${states.length}${describeSource(telegram)}\n\n${lines.join('\n')}`,
+            outputChannel
+        );
+    }
+
+    return states;
+}
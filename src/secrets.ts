@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+
+const PASSPHRASE_PREFIX = 'dotnetDeploy.passphrase:';
+const PASSWORD_PREFIX = 'dotnetDeploy.password:';
+const TELEGRAM_BOT_TOKEN = 'dotnetDeploy.telegram.botToken';
+const APPLE_APP_PASSWORD = 'dotnetDeploy.macos.codeSign.appPassword';
+const ENV_SECRET_PREFIX = 'dotnetDeploy.env:';
+/** SecretStorage cannot enumerate keys, so the keys we write are tracked here */
+const SECRET_INDEX = 'dotnetDeploy.secretIndex';
+
+let secretStorage: vscode.SecretStorage | undefined;
+
+/**
+ * Register the extension's SecretStorage (called once from activate)
+ */
+export function initSecrets(storage: vscode.SecretStorage): void {
+    secretStorage = storage;
+}
+
+async function readIndex(): Promise<string[]> {
+    const raw = await secretStorage?.get(SECRET_INDEX);
+    try {
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+}
+
+async function storeSecret(key: string, value: string): Promise<void> {
+    if (!secretStorage) {
+        return;
+    }
+    await secretStorage.store(key, value);
+
+    const index = await readIndex();
+    if (!index.includes(key)) {
+        index.push(key);
+        await secretStorage.store(SECRET_INDEX, JSON.stringify(index));
+    }
+}
+
+async function deleteSecret(key: string): Promise<void> {
+    if (!secretStorage) {
+        return;
+    }
+    await secretStorage.delete(key);
+
+    const index = await readIndex();
+    if (index.includes(key)) {
+        await secretStorage.store(SECRET_INDEX, JSON.stringify(index.filter(k => k !== key)));
+    }
+}
+
+/**
+ * Get the cached passphrase for a private key file
+ */
+export async function getKeyPassphrase(keyPath: string): Promise<string | undefined> {
+    return secretStorage?.get(PASSPHRASE_PREFIX + keyPath);
+}
+
+/**
+ * Cache the passphrase for a private key file
+ */
+export async function storeKeyPassphrase(keyPath: string, passphrase: string): Promise<void> {
+    await storeSecret(PASSPHRASE_PREFIX + keyPath, passphrase);
+}
+
+/**
+ * Remove a cached passphrase, e.g. after it turned out to be wrong
+ */
+export async function deleteKeyPassphrase(keyPath: string): Promise<void> {
+    await deleteSecret(PASSPHRASE_PREFIX + keyPath);
+}
+
+/**
+ * Identifier of a server login, used as the password key
+ */
+export function getServerId(server: { host: string; port: number; username: string }): string {
+    return `${server.username}@${server.host}:${server.port}`;
+}
+
+/**
+ * Get the saved SSH password for a server
+ */
+export async function getServerPassword(serverId: string): Promise<string | undefined> {
+    return secretStorage?.get(PASSWORD_PREFIX + serverId);
+}
+
+/**
+ * Save the SSH password for a server
+ */
+export async function storeServerPassword(serverId: string, password: string): Promise<void> {
+    await storeSecret(PASSWORD_PREFIX + serverId, password);
+}
+
+/**
+ * Ids of all servers with a saved password (the passwords themselves are never returned)
+ */
+export async function listSavedServerPasswords(): Promise<string[]> {
+    const index = await readIndex();
+    return index
+        .filter(key => key.startsWith(PASSWORD_PREFIX))
+        .map(key => key.slice(PASSWORD_PREFIX.length));
+}
+
+export async function getTelegramBotToken(): Promise<string | undefined> {
+    return secretStorage?.get(TELEGRAM_BOT_TOKEN);
+}
+
+export async function storeTelegramBotToken(token: string): Promise<void> {
+    await storeSecret(TELEGRAM_BOT_TOKEN, token);
+}
+
+export async function getAppleAppPassword(): Promise<string | undefined> {
+    return secretStorage?.get(APPLE_APP_PASSWORD);
+}
+
+export async function storeAppleAppPassword(password: string): Promise<void> {
+    await storeSecret(APPLE_APP_PASSWORD, password);
+}
+
+/**
+ * Get a secret environment variable of a profile
+ */
+export async function getEnvSecret(profileName: string, name: string): Promise<string | undefined> {
+    return secretStorage?.get(`${ENV_SECRET_PREFIX}${profileName}:${name}`);
+}
+
+/**
+ * Save a secret environment variable of a profile
+ */
+export async function storeEnvSecret(profileName: string, name: string, value: string): Promise<void> {
+    await storeSecret(`${ENV_SECRET_PREFIX}${profileName}:${name}`, value);
+}
+
+/**
+ * One-time move of plain-text credentials from settings.json into SecretStorage.
+ * Settings are cleared in every scope (user, workspace and each workspace folder) once the value has been stored.
+ */
+export async function migrateSecretsFromSettings(outputChannel: vscode.OutputChannel): Promise<void> {
+    const settings: [string, (value: string) => Promise<void>][] = [
+        ['telegram.botToken', storeTelegramBotToken],
+        ['macos.codeSign.appPassword', storeAppleAppPassword],
+    ];
+    const config = vscode.workspace.getConfiguration('dotnetDeploy');
+
+    for (const [key, store] of settings) {
+        const inspected = config.inspect<string>(key);
+        // 文件夹级设置需要按文件夹读取和清除
+        const scopes: { config: vscode.WorkspaceConfiguration; target: vscode.ConfigurationTarget; value: string | undefined }[] = [
+            ...(vscode.workspace.workspaceFolders || []).map(folder => {
+                const folderConfig = vscode.workspace.getConfiguration('dotnetDeploy', folder.uri);
+                return {
+                    config: folderConfig,
+                    target: vscode.ConfigurationTarget.WorkspaceFolder,
+                    value: folderConfig.inspect<string>(key)?.workspaceFolderValue
+                };
+            }),
+            { config, target: vscode.ConfigurationTarget.Workspace, value: inspected?.workspaceValue },
+            { config, target: vscode.ConfigurationTarget.Global, value: inspected?.globalValue }
+        ].filter(scope => scope.value !== undefined);
+
+        // 优先级与 VS Code 相同：文件夹 > 工作区 > 用户
+        const value = scopes.find(scope => scope.value)?.value;
+        if (!value) {
+            continue;
+        }
+
+        try {
+            await store(value);
+            for (const scope of scopes) {
+                await scope.config.update(key, undefined, scope.target);
+            }
+            outputChannel.appendLine(`[Secrets] Moved dotnetDeploy.${key} from settings to secure storage`);
+        } catch (err: any) {
+            outputChannel.appendLine(`[Secrets] ⚠️ Failed to migrate dotnetDeploy.${key}: ${err.message}`);
+        }
+    }
+}
+
+/**
+ * Delete every credential this extension has stored
+ */
+export async function forgetAllSecrets(): Promise<number> {
+    if (!secretStorage) {
+        return 0;
+    }
+
+    const index = await readIndex();
+    const keys = new Set([...index, TELEGRAM_BOT_TOKEN, APPLE_APP_PASSWORD]);
+    for (const key of keys) {
+        await secretStorage.delete(key);
+    }
+    await secretStorage.delete(SECRET_INDEX);
+    return index.length;
+}
@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { openRemoteSession, shellQuote, DeployConfig, DeployResult, RemoteSession } from './deployer';
+
+export type ServiceAction = 'start' | 'stop' | 'restart';
+
+/**
+ * State of a systemd unit on the server
+ */
+export interface ServiceStatus {
+    name: string;
+    /** False when the unit does not exist */
+    loaded: boolean;
+    activeState: string;
+    subState: string;
+    mainPid?: number;
+    uptimeSeconds?: number;
+}
+
+/**
+ * sudo prefix for commands that change the service (-n fails instead of prompting)
+ */
+function getSudo(config: DeployConfig): string {
+    return config.username === 'root' ? '' : 'sudo -n ';
+}
+
+/**
+ * Parse `systemctl show` output (Key=Value lines)
+ */
+function parseProperties(output: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+    for (const line of output.split(/\r?\n/)) {
+        const index = line.indexOf('=');
+        if (index > 0) {
+            properties[line.slice(0, index)] = line.slice(index + 1);
+        }
+    }
+    return properties;
+}
+
+/**
+ * Read active state, main PID and uptime of a unit
+ */
+export async function getServiceStatus(
+    config: DeployConfig,
+    serviceName: string,
+    outputChannel: vscode.OutputChannel
+): Promise<ServiceStatus> {
+    const session = await openRemoteSession(config, outputChannel);
+    try {
+        const result = await session.exec(
+            `systemctl show ${shellQuote(serviceName)} --no-pager ` +
+            '--property=LoadState,ActiveState,SubState,MainPID,ActiveEnterTimestampMonotonic; cat /proc/uptime'
+        );
+        if (result.code !== 0) {
+            throw new Error(`systemctl show exited with code ${result.code}: ${result.stderr.trim()}`);
+        }
+
+        const properties = parseProperties(result.stdout);
+        const status: ServiceStatus = {
+            name: serviceName,
+            loaded: properties.LoadState === 'loaded',
+            activeState: properties.ActiveState || 'unknown',
+            subState: properties.SubState || ''
+        };
+
+        const mainPid = parseInt(properties.MainPID, 10);
+        if (mainPid > 0) {
+            status.mainPid = mainPid;
+        }
+
+        // ActiveEnterTimestampMonotonic 与 /proc/uptime 同为开机以来的时间，相减即运行时长
+        const enteredMicros = parseInt(properties.ActiveEnterTimestampMonotonic, 10);
+        const uptimeLine = result.stdout.trim().split(/\r?\n/).pop() || '';
+        const systemUptime = parseFloat(uptimeLine.split(' ')[0]);
+        if (status.activeState === 'active' && enteredMicros > 0 && systemUptime > 0) {
+            status.uptimeSeconds = Math.max(0, Math.floor(systemUptime - enteredMicros / 1e6));
+        }
+
+        return status;
+    } finally {
+        session.close();
+    }
+}
+
+/**
+ * Start, stop or restart a unit
+ */
+export async function controlService(
+    config: DeployConfig,
+    serviceName: string,
+    action: ServiceAction,
+    outputChannel: vscode.OutputChannel
+): Promise<DeployResult> {
+    let session: RemoteSession | undefined;
+    try {
+        session = await openRemoteSession(config, outputChannel);
+        const command = `${getSudo(config)}systemctl ${action} ${shellQuote(serviceName)}`;
+        outputChannel.appendLine(`[Service] Executing: ${command}`);
+
+        const result = await session.exec(command);
+        if (result.code !== 0) {
+            throw new Error(`Exit code ${result.code}: ${(result.stderr || result.stdout).trim()}`);
+        }
+
+        outputChannel.appendLine(`[Service] ✓ ${serviceName} ${action} done`);
+        return { success: true };
+    } catch (err: any) {
+        outputChannel.appendLine(`[Service] ✗ ${action} failed: ${err.message}`);
+        return { success: false, error: err.message };
+    } finally {
+        session?.close();
+    }
+}
+
+/**
+ * Streams `journalctl -f` of a unit into its own output channel
+ */
+export class ServiceLogStream {
+    private _channel: vscode.OutputChannel | undefined;
+    private _session: RemoteSession | undefined;
+    private _partialLine = '';
+
+    constructor(private readonly _onStateChange: (running: boolean) => void) { }
+
+    public get running(): boolean {
+        return !!this._session;
+    }
+
+    private _getChannel(): vscode.OutputChannel {
+        if (!this._channel) {
+            this._channel = vscode.window.createOutputChannel('Dotnet Deploy: Service Logs');
+        }
+        return this._channel;
+    }
+
+    public async start(config: DeployConfig, serviceName: string, outputChannel: vscode.OutputChannel): Promise<void> {
+        this.stop();
+
+        const channel = this._getChannel();
+        channel.show(true);
+        channel.appendLine(`--- journalctl -u ${serviceName} -f (${config.host}) ---`);
+
+        const session = await openRemoteSession(config, outputChannel);
+        this._session = session;
+        this._onStateChange(true);
+
+        // 非 root 用户优先用 sudo 读取完整日志，无免密 sudo 时退回普通权限
+        const journal = `journalctl -u ${shellQuote(serviceName)} -f -n 100 --no-pager -o short-iso`;
+        const command = config.username === 'root' ? journal : `sudo -n ${journal} 2>/dev/null || ${journal}`;
+
+        session.execStream(command, text => this._append(text))
+            .then(
+                code => channel.appendLine(`--- journalctl exited (${code}) ---`),
+                err => channel.appendLine(`--- journalctl failed: ${err.message} ---`)
+            )
+            .finally(() => {
+                if (this._session === session) {
+                    this.stop();
+                }
+            });
+    }
+
+    /**
+     * Write complete lines only; pty output uses CRLF
+     */
+    private _append(text: string) {
+        const lines = (this._partialLine + text.replace(/\r/g, '')).split('\n');
+        this._partialLine = lines.pop() || '';
+        for (const line of lines) {
+            this._getChannel().appendLine(line);
+        }
+    }
+
+    public stop() {
+        if (!this._session) {
+            return;
+        }
+
+        const session = this._session;
+        this._session = undefined;
+        session.close();
+        if (this._partialLine) {
+            this._getChannel().appendLine(this._partialLine);
+            this._partialLine = '';
+        }
+        this._getChannel().appendLine('--- stopped ---');
+        this._onStateChange(false);
+    }
+
+    public dispose() {
+        this.stop();
+        this._channel?.dispose();
+    }
+}
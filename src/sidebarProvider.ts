@@ -3,7 +3,32 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { findSolution, getExecutableProjects, parseProject, ProjectInfo } from './solutionParser';
 import { publish, PublishPhase } from './publisher';
-import { deploy, executeRemote, DeployConfig } from './deployer';
+import {
+    deploy, executeRemote, rollback, sendTelegramNotification, sendDeploySuccessNotification, describeSource, openRemoteSession,
+    getRemoteAppDir, getRemoteEnvFilePath, DeployConfig, DeployResult, SshEndpoint
+} from './deployer';
+import { listSshHosts, resolveSshHost, SshHostConfig } from './sshConfig';
+import { getSystemdOptions, generateUnitFile, getServiceName, isWebProject } from './systemd';
+import { getServiceStatus, controlService, ServiceLogStream, ServiceAction } from './serviceControl';
+import { loadProfiles, getProfile, saveProfile, deleteProfile, getProfilesPath, checkProfileOptions, DeployProfile } from './profiles';
+import { deployToHosts } from './rollout';
+import { runPreflightChecks, detectServerRuntime, PreflightCheck } from './preflight';
+import { findMissingFrameworks, installRemoteRuntime, RuntimeInstallOptions } from './dotnetRuntime';
+import {
+    resolveAppConfig, renderConfigFiles, diffRemoteConfig, describeConfigChange, hasEnvironmentVariables, ResolvedAppConfig
+} from './remoteConfig';
+import { DeployHistory, DeployRecord, DeployRun, RecordingOutputChannel, RunSettings } from './deployHistory';
+import { getGitInfo, describeGitInfo, writeBuildInfo, BuildInfo, GitInfo, BUILD_INFO_FILE } from './buildInfo';
+import { publishMatrix, formatMatrixSummary, MatrixOptions } from './buildMatrix';
+import { resolveVersion, describeVersion, VersionStamp } from './versioning';
+import { verifyDeployment, describeHealthCheck, HealthCheckConfig, HealthCheckResult } from './healthCheck';
+import {
+    getServerId,
+    getServerPassword,
+    storeServerPassword,
+    listSavedServerPasswords,
+    getTelegramBotToken,
+} from './secrets';
 import {
     detectToolchain,
     getToolchainSummary,
@@ -18,15 +43,79 @@ import { isCrossCompileNeeded, getCrossCompileTarget, ToolchainStatus } from './
 export class SidebarProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'dotnetDeploy.sidebar';
     private _view?: vscode.WebviewView;
-    private _outputChannel: vscode.OutputChannel;
+    private _outputChannel: RecordingOutputChannel;
     private _projects: ProjectInfo[] = [];
     private _toolchainStatus?: ToolchainStatus;
+    private _serviceLogs: ServiceLogStream;
+    /** Set while a publish/deploy or SDK download is running */
+    private _cancellation?: vscode.CancellationTokenSource;
+    /** Settles when the running operation has finished, including its cleanup */
+    private _running?: Promise<void>;
+    /** Set while a publish/deploy is being recorded in the history */
+    private _run?: DeployRun;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        outputChannel: vscode.OutputChannel
+        outputChannel: RecordingOutputChannel,
+        private readonly _history: DeployHistory
     ) {
         this._outputChannel = outputChannel;
+        this._serviceLogs = new ServiceLogStream(running => this._postMessage({ command: 'serviceLogsState', running }));
+    }
+
+    public dispose() {
+        this._cancellation?.cancel();
+        this._serviceLogs.dispose();
+    }
+
+    /**
+     * Stop the running publish/deploy: kills local processes and closes SSH connections
+     */
+    public cancel() {
+        if (!this._cancellation || this._cancellation.token.isCancellationRequested) {
+            return;
+        }
+        this._outputChannel.appendLine('[Deploy] Cancelling...');
+        this._cancellation.cancel();
+    }
+
+    /**
+     * Run an operation that can be stopped with the cancel button or the dotnetDeploy.cancel command
+     */
+    private async _runCancellable(task: (token: vscode.CancellationToken) => Promise<void>) {
+        // 先等被取消的操作结束，它的 finally 不能清理新操作的状态 (如部署历史的记录)
+        while (this._running) {
+            this._cancellation?.cancel();
+            await this._running;
+        }
+
+        const cancellation = new vscode.CancellationTokenSource();
+        this._cancellation = cancellation;
+        vscode.commands.executeCommand('setContext', 'dotnetDeploy.running', true);
+
+        const running = task(cancellation.token);
+        const settled = running.then(() => undefined, () => undefined);
+        this._running = settled;
+        try {
+            await running;
+        } finally {
+            if (this._running === settled) {
+                this._running = undefined;
+            }
+            if (this._cancellation === cancellation) {
+                this._cancellation = undefined;
+                vscode.commands.executeCommand('setContext', 'dotnetDeploy.running', false);
+            }
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Tell the webview the operation was cancelled so it can reset its progress UI
+     */
+    private _postCancelled() {
+        this._outputChannel.appendLine('[Deploy] ✗ Cancelled');
+        this._postMessage({ command: 'cancelled' });
     }
 
     public resolveWebviewView(
@@ -50,7 +139,44 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     await this._loadProjects();
                     break;
                 case 'deploy':
-                    await this._handleDeploy(message);
+                    await this._runCancellable(token => this._recordDeploy(message, token));
+                    break;
+                case 'cancel':
+                    this.cancel();
+                    break;
+                case 'rollback':
+                    await this._handleRollback(message);
+                    break;
+                case 'saveProfile':
+                    await this._handleSaveProfile(message);
+                    break;
+                case 'deleteProfile':
+                    await this._handleDeleteProfile(message.name);
+                    break;
+                case 'openProfiles':
+                    await this._openProfilesFile();
+                    break;
+                case 'previewSystemdUnit':
+                    await this._previewSystemdUnit(message);
+                    break;
+                case 'detectRuntime':
+                    await this._handleDetectRuntime(message);
+                    break;
+                case 'serviceStatus':
+                    await this._handleServiceStatus(message);
+                    break;
+                case 'serviceAction':
+                    await this._handleServiceAction(message);
+                    break;
+                case 'toggleServiceLogs':
+                    await this._handleToggleServiceLogs(message);
+                    break;
+                case 'migratePassword':
+                    // 旧版本把密码保存在 webview state 中，迁移到 SecretStorage
+                    if (message.host && message.password) {
+                        await storeServerPassword(getServerId(message), message.password);
+                        await this._postSecretsState();
+                    }
                     break;
                 case 'openFolder':
                     if (message.path) {
@@ -63,7 +189,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     break;
                 case 'helpSSH':
                     vscode.window.showInformationMessage(
-                        'SSH 密钥通常位于 "~/.ssh/id_rsa"。如果不存在，请在终端运行 "ssh-keygen" 生成。',
+                        'SSH 密钥通常位于 "~/.ssh/id_rsa"。如果不存在，请在终端运行 "ssh-keygen" 生成。加密的私钥会在首次使用时提示输入密码，并保存在 VS Code 安全存储中。',
                         '复制生成命令'
                     ).then(selection => {
                         if (selection === '复制生成命令') {
@@ -98,6 +224,131 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         setTimeout(() => this._loadProjects(), 200);
     }
 
+    /**
+     * 重新加载项目和配置
+     */
+    public refresh() {
+        this._loadProjects();
+    }
+
+    /**
+     * 通知 webview 哪些服务器已保存密码 (不发送密码本身)
+     */
+    private async _postSecretsState() {
+        this._postMessage({ command: 'secretsState', savedPasswords: await listSavedServerPasswords() });
+    }
+
+    /**
+     * 读取工作区部署配置，文件格式错误时提示用户
+     */
+    private _loadProfilesSafe(): DeployProfile[] {
+        try {
+            return loadProfiles();
+        } catch (err: any) {
+            this._showProfilesError(err);
+            return [];
+        }
+    }
+
+    /**
+     * 按名称查找部署配置；未选择配置时返回 undefined，文件格式错误时提示用户并返回 null
+     */
+    private _getProfileSafe(name: string | undefined): DeployProfile | undefined | null {
+        if (!name) {
+            return undefined;
+        }
+        try {
+            return getProfile(name);
+        } catch (err: any) {
+            this._showProfilesError(err);
+            return null;
+        }
+    }
+
+    private _showProfilesError(err: Error) {
+        vscode.window.showWarningMessage(`读取部署配置失败 (${getProfilesPath()}): ${err.message}`);
+    }
+
+    private _postProfiles(selected?: string) {
+        this._postMessage({ command: 'profiles', profiles: this._loadProfilesSafe(), selected });
+    }
+
+    /**
+     * 将当前表单保存为命名部署配置 (不保存密码)
+     */
+    private async _handleSaveProfile(message: any) {
+        const name = await vscode.window.showInputBox({
+            prompt: '部署配置名称 (如 dev / staging / prod)',
+            value: message.profileName || '',
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : '名称不能为空'
+        });
+        if (!name) {
+            return;
+        }
+
+        try {
+            saveProfile({
+                name: name.trim(),
+                server: {
+                    host: message.host,
+                    port: message.port,
+                    username: message.username,
+                    authType: message.authType,
+                    privateKeyPath: message.privateKeyPath,
+                    remotePath: message.remotePath,
+                    incrementalUpload: message.incrementalUpload,
+                    atomicRelease: message.atomicRelease,
+                    mirror: message.mirror
+                },
+                systemd: { enabled: message.systemdEnabled },
+                publish: {
+                    runtime: message.runtime,
+                    selfContained: message.selfContained,
+                    singleFile: message.singleFile,
+                    publishAot: message.publishAot,
+                    disableSymbols: message.disableSymbols,
+                    stripSymbols: message.stripSymbols,
+                    invariantGlobalization: message.invariantGlobalization
+                }
+            });
+            vscode.window.showInformationMessage(`✓ 部署配置 "${name.trim()}" 已保存到 ${getProfilesPath()}`);
+            this._postProfiles(name.trim());
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`保存部署配置失败: ${err.message}`);
+        }
+    }
+
+    private async _handleDeleteProfile(name: string) {
+        if (!name) {
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(`确定要删除部署配置 "${name}" 吗？`, { modal: true }, '删除');
+        if (confirm !== '删除') {
+            return;
+        }
+
+        try {
+            deleteProfile(name);
+            this._postProfiles('');
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`删除部署配置失败: ${err.message}`);
+        }
+    }
+
+    private async _openProfilesFile() {
+        const filePath = getProfilesPath();
+        if (!filePath) {
+            vscode.window.showWarningMessage('未打开工作区');
+            return;
+        }
+        if (!fs.existsSync(filePath)) {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify({ profiles: {} }, null, 4) + '\n', 'utf-8');
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+    }
+
     private async _loadProjects() {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) {
@@ -151,17 +402,37 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             // 检测是否为 macOS 平台
             const isMacOS = process.platform === 'darwin';
 
+            // 读取 ~/.ssh/config 中的 Host 别名
+            let sshHosts: SshHostConfig[] = [];
+            try {
+                sshHosts = listSshHosts();
+            } catch (e) {
+                console.error('Failed to parse ssh config:', e);
+            }
+
             // 先发送项目列表（不等待工具链检测）
             this._postMessage({
                 command: 'projects',
                 projects: this._projects.map(p => ({ name: p.name, path: p.path })),
                 isMacOS: isMacOS,
+                sshHosts: sshHosts.map(h => ({
+                    alias: h.alias,
+                    hostName: h.hostName,
+                    user: h.user,
+                    port: h.port,
+                    identityFile: h.identityFiles[0],
+                    proxyJump: h.proxyJump
+                })),
                 config: {
                     host: config.get('server.host', ''),
                     port: config.get('server.port', 22),
                     username: config.get('server.username', 'root'),
                     privateKeyPath: config.get('server.privateKeyPath', '~/.ssh/id_rsa'),
                     remotePath: config.get('deploy.remotePath', '/opt/apps'),
+                    atomicRelease: config.get('deploy.atomicRelease', false),
+                    systemdEnabled: config.get('systemd.enabled', false),
+                    mirror: config.get('deploy.mirror', false),
+                    jumpHosts: config.get<SshEndpoint[]>('server.jumpHosts', []).map(h => `${h.username}@${h.host}:${h.port || 22}`),
                     selfContained: config.get('publish.selfContained', true),
                     singleFile: config.get('publish.singleFile', false),
                     debugSymbols: config.get('publish.debugSymbols', false),
@@ -171,8 +442,10 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     runtime: config.get<string>('publish.runtime') || 'linux-x64',
                     crossCompileEnabled: config.get('crossCompile.enabled', true)
                 },
+                profiles: this._loadProfilesSafe(),
                 toolchain: null  // 工具链稍后异步加载
             });
+            await this._postSecretsState();
 
             // 异步加载工具链状态（不阻塞 UI）
             this._loadToolchainAsync();
@@ -208,7 +481,73 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private async _handleDeploy(message: any) {
+    /**
+     * Run the deploy again with the form values, profile, UPX and systemd settings of a recorded run
+     * (the password comes from SecretStorage; records without settings use the current configuration)
+     */
+    public async redeploy(record: DeployRecord) {
+        await vscode.commands.executeCommand(`${SidebarProvider.viewType}.focus`);
+        if (this._projects.length === 0) {
+            await this._loadProjects();
+        }
+        this._postMessage({ command: 'deployStarted', deployTarget: record.request.deployTarget || 'server' });
+        await this._runCancellable(token => this._recordDeploy({ ...record.request, command: 'deploy' }, token, record.settings));
+    }
+
+    /**
+     * 读取本次部署使用的 UPX、部署配置和 systemd 设置；部署配置文件格式错误时返回 undefined
+     */
+    private _resolveRunSettings(message: any): RunSettings | undefined {
+        const isServer = (message.deployTarget || 'server') === 'server';
+        const profile = isServer ? this._getProfileSafe(message.profileName) : undefined;
+        if (profile === null) {
+            return undefined;
+        }
+
+        const upxConfig = vscode.workspace.getConfiguration('dotnetDeploy.upx');
+        const project = this._projects.find(p => p.name === message.projectName);
+        return {
+            upx: { enabled: upxConfig.get<boolean>('enabled', false), level: upxConfig.get<string>('level', '--best') },
+            profile,
+            systemd: isServer && project ? this._getSystemdOptions(message, project, profile) : undefined
+        };
+    }
+
+    /**
+     * 执行部署并把阶段、结果和输出日志记录到部署历史
+     */
+    private async _recordDeploy(message: any, token: vscode.CancellationToken, recorded?: RunSettings) {
+        const settings = recorded ?? this._resolveRunSettings(message);
+        if (!settings) {
+            this._postMessage({ command: 'error', message: '无法读取部署配置文件' });
+            return;
+        }
+
+        const run = new DeployRun(message, settings);
+        this._run = run;
+        this._outputChannel.startRecording();
+        try {
+            await this._handleDeploy(message, settings, token);
+        } catch (err: any) {
+            // 未处理的异常也要结束 webview 的部署状态
+            if (token.isCancellationRequested) {
+                this._postCancelled();
+            } else {
+                this._outputChannel.appendLine(`[Deploy] ✗ ${err.message}`);
+                this._postMessage({ command: 'error', message: err.message });
+            }
+        } finally {
+            this._run = undefined;
+            const log = this._outputChannel.stopRecording();
+            try {
+                this._history.add(run.finish(), log);
+            } catch (err: any) {
+                this._outputChannel.appendLine(`[Deploy] Failed to save deploy history: ${err.message}`);
+            }
+        }
+    }
+
+    private async _handleDeploy(message: any, settings: RunSettings, token: vscode.CancellationToken) {
         const project = this._projects.find(p => p.name === message.projectName);
         if (!project) {
             this._postMessage({ command: 'error', message: '未找到项目' });
@@ -243,106 +582,882 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             publishDir = path.join(require('os').tmpdir(), 'dotnet-deploy', project.name);
         }
 
+        // 发布前记录源码版本，写入部署历史、Telegram 通知和 BUILD_INFO.json
+        const gitInfo = await getGitInfo(path.dirname(project.path));
+        this._outputChannel.appendLine(`[Deploy] Source: ${describeGitInfo(gitInfo)}${gitInfo ? ` ${gitInfo.commit}` : ''}`);
+        if (this._run) {
+            this._run.outputPath = publishDir;
+            this._run.record.git = gitInfo;
+        }
+        const profile = settings.profile;
+        if (deployTarget === 'server' && !await this._checkProtectedProfile(profile, gitInfo)) {
+            return;
+        }
+        const optionsError = deployTarget === 'server' && profile ? checkProfileOptions(profile, !!message.atomicRelease) : undefined;
+        if (optionsError) {
+            this._outputChannel.appendLine(`[Deploy] ✗ ${optionsError}`);
+            this._postMessage({ command: 'error', message: optionsError });
+            return;
+        }
+
+        let version: VersionStamp | undefined;
+        try {
+            version = await resolveVersion(project.name, path.dirname(project.path), gitInfo);
+        } catch (err: any) {
+            this._outputChannel.appendLine(`[Deploy] ✗ Version: ${err.message}`);
+            this._postMessage({ command: 'error', message: `无法确定版本号: ${err.message}` });
+            return;
+        }
+        if (version) {
+            this._outputChannel.appendLine(`[Deploy] Version: ${describeVersion(version)} from ${version.source}`);
+            if (this._run) {
+                this._run.record.version = describeVersion(version);
+            }
+        }
+
         this._postMessage({ command: 'status', phase: 'publish' });
         this._outputChannel.appendLine(`[Deploy] Publishing ${project.name} to ${publishDir}...`);
 
-        // 获取 UPX 配置
-        const upxConfig = vscode.workspace.getConfiguration('dotnetDeploy.upx');
-        const upxEnabled = upxConfig.get<boolean>('enabled', false);
-        const upxLevel = upxConfig.get<string>('level', '--best');
+        // 获取 macOS 打包配置
+        const macosConfig = vscode.workspace.getConfiguration('dotnetDeploy.macos');
+        const macosEnabled = macosConfig.get<boolean>('enabled', false);
+
+        const publishOptions: MatrixOptions = {
+            projectPath: project.path,
+            selfContained: message.selfContained,
+            singleFile: message.singleFile,
+            debugSymbols: message.debugSymbols,
+            disableSymbols: message.disableSymbols,
+            publishAot: message.publishAot,
+            stripSymbols: message.stripSymbols,
+            invariantGlobalization: message.invariantGlobalization,
+            upxEnabled: settings.upx.enabled,
+            upxLevel: settings.upx.level,
+            version: version
+        };
+        // BUILD_INFO.json 的公共部分，发布完成后按运行时写入
+        const buildInfo: Omit<BuildInfo, 'runtime' | 'builtAt'> = {
+            project: project.name,
+            profile: deployTarget === 'server' ? message.profileName || undefined : undefined,
+            version: version?.version,
+            buildNumber: version?.buildNumber,
+            git: gitInfo && { branch: gitInfo.branch, commit: gitInfo.commit, dirty: gitInfo.dirty }
+        };
+
+        const matrixRuntimes: string[] = deployTarget === 'local' ? message.matrixRuntimes || [] : [];
+        if (matrixRuntimes.length > 0) {
+            await this._handleMatrixBuild(publishOptions, buildInfo, matrixRuntimes, publishDir, token);
+            return;
+        }
+
+        // 状态回调 - 更新 UI 显示当前阶段
+        const onStatus = (phase: PublishPhase, statusMessage: string) => {
+            // 根据部署模式和配置决定显示哪些阶段
+            if (deployTarget === 'local') {
+                // 本地模式：编译 → [压缩] → [打包]
+                const phaseMap: Record<PublishPhase, string> = {
+                    'compile': '编译中',
+                    'upx': '压缩中',
+                    'package': '打包中'
+                };
+                const btn = this._view?.webview;
+                if (btn) {
+                    this._postMessage({
+                        command: 'localStatus',
+                        phase: phase,
+                        message: phaseMap[phase] || statusMessage
+                    });
+                }
+            }
+            // 服务器模式使用原有的 progress bar
+        };
+
+        const publishResult = await publish({
+            ...publishOptions,
+            outputPath: publishDir,
+            runtime: message.runtime,
+            onStatus: onStatus
+        }, this._outputChannel, token);
+
+        if (token.isCancellationRequested) {
+            this._postCancelled();
+            return;
+        }
+        if (!publishResult.success) {
+            this._postMessage({ command: 'error', message: '发布失败！' });
+            return;
+        }
+
+        this._writeBuildInfo(publishDir, { ...buildInfo, runtime: message.runtime, builtAt: new Date().toISOString() });
+
+        if (deployTarget === 'local') {
+            this._postMessage({
+                command: 'success',
+                message: '发布成功！',
+                path: publishResult.outputPath
+            });
+            vscode.window.showInformationMessage(`✓ ${project.name} 已发布到 ${publishDir}`);
+            return;
+        }
+
+        if (profile) {
+            this._outputChannel.appendLine(`[Deploy] Using profile: ${profile.name}`);
+        }
+
+        if (profile?.server?.hosts?.length) {
+            await this._handleMultiHostDeploy(message, profile, project, publishDir, { gitInfo, version, systemd: settings.systemd }, token);
+            return;
+        }
+
+        const deployConfig = await this._buildDeployConfig(message, profile);
+        if (!deployConfig) {
+            this._postMessage({ command: 'error', message: '未提供 SSH 密码' });
+            return;
+        }
+        deployConfig.gitInfo = gitInfo;
+        deployConfig.version = version;
+        deployConfig.systemd = settings.systemd;
+        // 配置了健康检查时，成功通知要等检查通过后再发送
+        deployConfig.deferSuccessNotification = !!profile?.healthCheck;
+
+        this._postMessage({ command: 'status', phase: 'upload' });
+        if (!await this._ensureRuntime([deployConfig], message, project, token)) {
+            return;
+        }
+        if (!await this._runPreflight([deployConfig], message, project, publishDir, token)) {
+            return;
+        }
+        if (!await this._applyAppConfig([deployConfig], project, profile, token)) {
+            return;
+        }
+        this._outputChannel.appendLine(`[Deploy] Uploading to ${message.host}...`);
+
+        const deployResult = await deploy(deployConfig, publishDir, project.assemblyName, this._outputChannel,
+            progress => this._postMessage({ command: 'uploadProgress', progress }), token);
+        if (token.isCancellationRequested) {
+            this._postCancelled();
+            return;
+        }
+        if (!deployResult.success) {
+            this._postMessage({ command: 'error', message: '上传失败！' });
+            return;
+        }
+
+        this._postMessage({ command: 'status', phase: 'start' });
+        this._outputChannel.appendLine(`[Deploy] Starting service...`);
+
+        const startResult = await executeRemote(deployConfig, project.assemblyName, this._outputChannel, token);
+        if (profile?.healthCheck) {
+            const health = startResult.success
+                ? await verifyDeployment(deployConfig, project.assemblyName, profile.healthCheck, this._outputChannel, token)
+                : undefined;
+            if (token.isCancellationRequested) {
+                this._postCancelled();
+                return;
+            }
+            await this._notifyVerifiedDeploy(deployConfig, publishDir, project.assemblyName, deployResult.releaseId,
+                profile.healthCheck, startResult, health);
+            if (health && !health.success) {
+                const rolledBack = health.rolledBackTo ? `，已回滚到 ${health.rolledBackTo}` : '';
+                this._postMessage({ command: 'error', message: `健康检查失败: ${health.error}${rolledBack}` });
+                return;
+            }
+        }
+
+        if (token.isCancellationRequested) {
+            this._postCancelled();
+        } else if (startResult.success) {
+            this._postMessage({ command: 'success', message: '部署成功！' });
+            vscode.window.showInformationMessage(`✓ ${project.name} 部署成功！`);
+        } else {
+            this._postMessage({ command: 'error', message: '启动失败！' });
+        }
+    }
+
+    /**
+     * 配置了健康检查时 deploy() 不发送成功通知，启动和检查结束后在这里只发送一条结果
+     */
+    private async _notifyVerifiedDeploy(
+        config: DeployConfig,
+        localPath: string,
+        assemblyName: string,
+        releaseId: string | undefined,
+        check: HealthCheckConfig,
+        startResult: DeployResult,
+        health?: HealthCheckResult
+    ) {
+        if (health?.success) {
+            await sendDeploySuccessNotification(config, localPath, assemblyName, this._outputChannel, releaseId,
+                `\nHealth check: ✓ ${describeHealthCheck(check)}`);
+            return;
+        }
+        if (!config.telegramEnabled || !config.telegramBotToken || !config.telegramChatId) {
+            return;
+        }
+
+        let text = `❌ *Deploy Failed*\n\nProject: \`${assemblyName}\`\nHost: \`${config.host}\`` + describeSource(config);
+        text += health
+            ? `\nHealth check: ✗ ${describeHealthCheck(check)}\nError: ${health.error}`
+            : `\nError: Start command failed: ${startResult.error}`;
+        if (health?.rolledBackTo) {
+            text += `\nRolled back to: \`${health.rolledBackTo}\``;
+        }
+        await sendTelegramNotification(config.telegramBotToken, config.telegramChatId, text, this._outputChannel);
+    }
+
+    private _writeBuildInfo(outputPath: string, info: BuildInfo) {
+        try {
+            writeBuildInfo(outputPath, info);
+        } catch (err: any) {
+            this._outputChannel.appendLine(`[Deploy] Warning: Failed to write ${BUILD_INFO_FILE}: ${err.message}`);
+        }
+    }
+
+    /**
+     * 为多个运行时分别发布到 <输出路径>/<RID>，同时构建的数量由 publish.matrixConcurrency 控制，结束后输出汇总表
+     */
+    private async _handleMatrixBuild(
+        options: MatrixOptions,
+        buildInfo: Omit<BuildInfo, 'runtime' | 'builtAt'>,
+        runtimes: string[],
+        outputRoot: string,
+        token: vscode.CancellationToken
+    ) {
+        const concurrency = vscode.workspace.getConfiguration('dotnetDeploy').get<number>('publish.matrixConcurrency', 1);
+        if (this._run) {
+            this._run.record.runtime = runtimes.join(', ');
+        }
+        this._outputChannel.appendLine(`[Matrix] Building ${runtimes.length} runtimes, ${concurrency} at a time`);
+        this._postMessage({ command: 'localStatus', phase: 'compile', message: '编译中' });
+
+        const states = await publishMatrix(options, runtimes, outputRoot, concurrency, this._outputChannel,
+            targets => this._postMessage({ command: 'matrixStatus', targets }), token);
+
+        for (const state of states.filter(state => state.status === 'success')) {
+            this._writeBuildInfo(path.join(outputRoot, state.runtime), { ...buildInfo, runtime: state.runtime, builtAt: new Date().toISOString() });
+        }
+        this._outputChannel.appendLine('');
+        this._outputChannel.appendLine(formatMatrixSummary(states));
+
+        if (token.isCancellationRequested) {
+            this._postCancelled();
+            return;
+        }
+        const succeeded = states.filter(state => state.status === 'success').length;
+        if (succeeded === states.length) {
+            this._postMessage({ command: 'success', message: `发布成功！(${succeeded} 个运行时)`, path: outputRoot });
+            vscode.window.showInformationMessage(`✓ ${buildInfo.project} 已发布 ${succeeded} 个运行时到 ${outputRoot}`);
+        } else {
+            this._postMessage({ command: 'error', message: `发布失败！(${succeeded}/${states.length} 个运行时成功)` });
+        }
+    }
+
+    /**
+     * 受保护的部署配置要求工作区干净且提交已推送到远程分支，否则需用户确认后才继续。返回 false 表示中止部署。
+     */
+    private async _checkProtectedProfile(profile: DeployProfile | undefined, gitInfo: GitInfo | undefined): Promise<boolean> {
+        if (!profile?.protected) {
+            return true;
+        }
+
+        const problems: string[] = [];
+        if (!gitInfo) {
+            problems.push('项目不在 Git 仓库中，无法确认源码版本');
+        } else {
+            if (gitInfo.dirty) {
+                problems.push('工作区有未提交的修改');
+            }
+            if (!gitInfo.upstream) {
+                problems.push(`分支 ${gitInfo.branch || '(detached HEAD)'} 没有远程跟踪分支`);
+            } else if (!gitInfo.pushed) {
+                problems.push(`提交 ${gitInfo.commit.slice(0, 8)} 尚未推送到 ${gitInfo.upstream}`);
+            }
+        }
+        if (problems.length === 0) {
+            return true;
+        }
+
+        for (const problem of problems) {
+            this._outputChannel.appendLine(`[Deploy] ✗ Protected profile ${profile.name}: ${problem}`);
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `部署配置 ${profile.name} 受保护，当前源码不满足部署要求：\n\n${problems.map(p => `• ${p}`).join('\n')}\n\n仍要部署吗？`,
+            { modal: true },
+            '仍然部署'
+        );
+        if (choice !== '仍然部署') {
+            this._postMessage({ command: 'error', message: '源码未提交或未推送，已取消部署到受保护的配置' });
+            return false;
+        }
+        this._outputChannel.appendLine(`[Deploy] ⚠ Protected profile check overridden for ${profile.name}`);
+        return true;
+    }
+
+    /**
+     * 将同一份发布产物部署到 profile 中列出的所有主机 (并行或滚动)
+     */
+    private async _handleMultiHostDeploy(
+        message: any,
+        profile: DeployProfile,
+        project: ProjectInfo,
+        publishDir: string,
+        build: Pick<DeployConfig, 'gitInfo' | 'version' | 'systemd'>,
+        token: vscode.CancellationToken
+    ) {
+        const configs: DeployConfig[] = [];
+        for (const entry of profile.server?.hosts || []) {
+            const host = typeof entry === 'string' ? { host: entry } : entry;
+            // 表单中输入的密码只属于表单主机，其余主机从 SecretStorage 读取或提示输入
+            const hostMessage = {
+                ...message,
+                password: undefined,
+                ...host,
+                port: host.port || message.port,
+                username: host.username || message.username,
+                authType: host.authType || message.authType,
+                privateKeyPath: host.privateKeyPath || message.privateKeyPath
+            };
+            const hostConfig = await this._buildDeployConfig(hostMessage, profile);
+            if (!hostConfig) {
+                this._postMessage({ command: 'error', message: `未提供 ${host.host} 的 SSH 密码` });
+                return;
+            }
+            configs.push({ ...hostConfig, ...build });
+        }
+        if (this._run) {
+            this._run.record.host = configs.map(config => config.host).join(', ');
+        }
+
+        this._postMessage({ command: 'status', phase: 'upload' });
+        if (!await this._ensureRuntime(configs, message, project, token)) {
+            return;
+        }
+        if (!await this._runPreflight(configs, message, project, publishDir, token)) {
+            return;
+        }
+        if (!await this._applyAppConfig(configs, project, profile, token)) {
+            return;
+        }
+
+        const rollout = profile.rollout || {};
+        const states = await deployToHosts(configs, publishDir, project.assemblyName, {
+            mode: rollout.mode || 'parallel',
+            batchSize: rollout.batchSize || 1,
+            pauseSeconds: rollout.pauseSeconds || 0,
+            healthCheck: profile.healthCheck
+        }, this._outputChannel, hosts => this._postMessage({ command: 'hostStatus', hosts }), token);
+
+        if (token.isCancellationRequested) {
+            this._postCancelled();
+            return;
+        }
+
+        const succeeded = states.filter(state => state.status === 'success').length;
+        if (succeeded === states.length) {
+            this._postMessage({ command: 'success', message: `部署成功！(${succeeded}/${states.length} 台主机)` });
+            vscode.window.showInformationMessage(`✓ ${project.name} 已部署到 ${succeeded} 台主机`);
+        } else {
+            this._postMessage({ command: 'error', message: `部署失败！(${succeeded}/${states.length} 台主机成功)` });
+        }
+    }
+
+    /**
+     * 读取 profile 中的环境变量 (密钥取自 SecretStorage) 和 appsettings 覆盖，
+     * 与服务器上的当前值比较并确认后交给 deploy() 写入。返回 false 表示中止部署。
+     */
+    private async _applyAppConfig(
+        configs: DeployConfig[],
+        project: ProjectInfo,
+        profile: DeployProfile | undefined,
+        token: vscode.CancellationToken
+    ): Promise<boolean> {
+        if (!profile) {
+            return true;
+        }
+
+        let resolved: ResolvedAppConfig | undefined;
+        try {
+            resolved = await resolveAppConfig(profile);
+        } catch (err: any) {
+            this._postMessage({ command: 'error', message: err.message });
+            return false;
+        }
+        if (!resolved) {
+            return true;
+        }
+
+        const lines: string[] = [];
+        for (const config of configs) {
+            try {
+                const session = await openRemoteSession(config, this._outputChannel);
+                try {
+                    const changes = await diffRemoteConfig(
+                        session,
+                        getRemoteEnvFilePath(config, project.assemblyName),
+                        getRemoteAppDir(config, project.assemblyName),
+                        resolved
+                    );
+                    const prefix = configs.length > 1 ? `[${config.host}] ` : '';
+                    lines.push(...changes.map(change => prefix + describeConfigChange(change)));
+                } finally {
+                    session.close();
+                }
+            } catch (err: any) {
+                this._outputChannel.appendLine(`[Deploy] ✗ Failed to read remote configuration: ${err.message}`);
+                this._postMessage({ command: 'error', message: `无法读取 ${config.host} 上的配置: ${err.message}` });
+                return false;
+            }
+            if (token.isCancellationRequested) {
+                this._postCancelled();
+                return false;
+            }
+        }
+
+        if (lines.length > 0) {
+            this._outputChannel.appendLine(`[Deploy] Configuration changes (${profile.name}):`);
+            lines.forEach(line => this._outputChannel.appendLine(`  ${line}`));
+
+            const choice = await vscode.window.showWarningMessage(
+                `将更新服务器配置 (${lines.length} 项变更)`,
+                { modal: true, detail: lines.join('\n') },
+                '应用'
+            );
+            if (token.isCancellationRequested) {
+                this._postCancelled();
+                return false;
+            }
+            if (choice !== '应用') {
+                this._postMessage({ command: 'error', message: '未应用配置变更，已取消部署' });
+                return false;
+            }
+        } else {
+            this._outputChannel.appendLine(`[Deploy] Remote configuration is up to date`);
+        }
+
+        // 配置不变时也照常写入，镜像模式或新版本目录中的 appsettings 需要重新生成
+        const files = renderConfigFiles(resolved);
+        configs.forEach(config => config.appConfig = files);
+        return true;
+    }
+
+    /**
+     * 运行时安装配置；未启用 runtimeInstall 时返回 undefined
+     */
+    private _getRuntimeInstallOptions(project: ProjectInfo): RuntimeInstallOptions | undefined {
+        const config = vscode.workspace.getConfiguration('dotnetDeploy.runtimeInstall');
+        if (!config.get<boolean>('enabled', false)) {
+            return undefined;
+        }
+        return {
+            targetFramework: project.targetFramework,
+            webProject: isWebProject(project),
+            installDir: config.get<string>('installDir') || '/usr/share/dotnet',
+            scriptPath: config.get<string>('scriptPath') || undefined
+        };
+    }
+
+    /**
+     * 框架依赖发布时检查每台主机的共享运行时，缺失时询问是否用 dotnet-install.sh 安装。
+     * 返回 false 表示中止部署。
+     */
+    private async _ensureRuntime(
+        configs: DeployConfig[],
+        message: any,
+        project: ProjectInfo,
+        token: vscode.CancellationToken
+    ): Promise<boolean> {
+        const options = this._getRuntimeInstallOptions(project);
+        if (!options || message.selfContained) {
+            return true;
+        }
+
+        for (const config of configs) {
+            let missing: string[];
+            try {
+                missing = await findMissingFrameworks(config, options, this._outputChannel);
+            } catch (err: any) {
+                this._outputChannel.appendLine(`[Runtime] ✗ ${err.message}`);
+                vscode.window.showWarningMessage(`无法检查 ${config.host} 上的 .NET 运行时: ${err.message}`);
+                continue;
+            }
+            if (token.isCancellationRequested) {
+                this._postCancelled();
+                return false;
+            }
+            if (missing.length === 0) {
+                continue;
+            }
+
+            // 安装只使用本地脚本副本，服务器无需访问外网
+            if (!options.scriptPath) {
+                const action = await vscode.window.showWarningMessage(
+                    `${config.host} 缺少 ${missing.join(', ')} (${project.targetFramework})`,
+                    { modal: true, detail: '安装运行时需要本地 dotnet-install.sh 副本，请先配置 dotnetDeploy.runtimeInstall.scriptPath。' },
+                    '打开设置',
+                    '跳过'
+                );
+                if (action === '跳过') {
+                    continue;
+                }
+                if (action === '打开设置') {
+                    await vscode.commands.executeCommand('workbench.action.openSettings', 'dotnetDeploy.runtimeInstall.scriptPath');
+                }
+                this._postMessage({ command: 'error', message: '已取消部署' });
+                return false;
+            }
+
+            const choice = await vscode.window.showWarningMessage(
+                `${config.host} 缺少 ${missing.join(', ')} (${project.targetFramework})，是否安装到 ${options.installDir}？`,
+                { modal: true, detail: `使用本地脚本 ${options.scriptPath}` },
+                '安装',
+                '跳过'
+            );
+            if (choice === undefined) {
+                this._postMessage({ command: 'error', message: '已取消部署' });
+                return false;
+            }
+            if (choice !== '安装') {
+                continue;
+            }
+
+            const result = await installRemoteRuntime(config, options, this._outputChannel, token);
+            if (token.isCancellationRequested) {
+                this._postCancelled();
+                return false;
+            }
+            if (!result.success) {
+                this._postMessage({ command: 'error', message: `运行时安装失败: ${result.error}` });
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * 上传前检查每台主机 (磁盘、权限、架构、依赖库、运行时)，结果显示在侧边栏。
+     * 有失败项时由用户决定是否继续；返回 false 表示中止部署。
+     */
+    private async _runPreflight(
+        configs: DeployConfig[],
+        message: any,
+        project: ProjectInfo,
+        publishDir: string,
+        token: vscode.CancellationToken
+    ): Promise<boolean> {
+        if (!vscode.workspace.getConfiguration('dotnetDeploy').get<boolean>('deploy.preflight', true)) {
+            return true;
+        }
+
+        const options = {
+            localPath: publishDir,
+            assemblyName: project.assemblyName,
+            runtime: message.runtime,
+            selfContained: !!message.selfContained,
+            invariantGlobalization: !!message.invariantGlobalization,
+            targetFramework: project.targetFramework,
+            webProject: isWebProject(project),
+            runtimeDir: this._getRuntimeInstallOptions(project)?.installDir
+        };
+
+        const checks: PreflightCheck[] = [];
+        for (const config of configs) {
+            const hostChecks = await runPreflightChecks(config, options, this._outputChannel, token);
+            if (token.isCancellationRequested) {
+                this._postCancelled();
+                return false;
+            }
+            // 多主机时在检查项前标注主机
+            checks.push(...hostChecks.map(check => configs.length > 1 ? { ...check, name: `${config.host} · ${check.name}` } : check));
+            this._postMessage({ command: 'preflight', checks });
+        }
+
+        const failed = checks.filter(check => check.status === 'fail');
+        if (failed.length === 0) {
+            return true;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `预检发现 ${failed.length} 个问题，继续部署可能失败`,
+            { modal: true, detail: failed.map(check => `✗ ${check.name}: ${check.message}`).join('\n') },
+            '仍然部署'
+        );
+        if (token.isCancellationRequested) {
+            this._postCancelled();
+            return false;
+        }
+        if (choice !== '仍然部署') {
+            this._postMessage({ command: 'error', message: '预检未通过，已取消部署' });
+            return false;
+        }
+
+        this._outputChannel.appendLine('[Preflight] Continuing despite failed checks');
+        return true;
+    }
+
+    /**
+     * 根据 webview 消息、部署配置 (profile) 和全局配置构建部署配置。
+     * 表单字段优先；表单中没有的选项 (启动命令、跳板机) 取自 profile，再回退到全局配置。
+     * 凭据从 SecretStorage 读取，webview 中新输入的密码会被保存。
+     * 用户取消输入密码时返回 undefined。
+     */
+    private async _buildDeployConfig(message: any, profile?: DeployProfile): Promise<DeployConfig | undefined> {
+        const config = vscode.workspace.getConfiguration('dotnetDeploy');
+        const project = this._projects.find(p => p.name === message.projectName);
+
+        let password: string | undefined;
+        if (message.authType === 'password') {
+            const serverId = getServerId(message);
+            if (message.password) {
+                password = message.password;
+                await storeServerPassword(serverId, message.password);
+                await this._postSecretsState();
+            } else {
+                password = await getServerPassword(serverId);
+            }
+
+            if (!password) {
+                password = await vscode.window.showInputBox({
+                    prompt: `请输入 ${serverId} 的 SSH 密码`,
+                    password: true,
+                    ignoreFocusOut: true
+                });
+                if (password === undefined) {
+                    return undefined;
+                }
+                await storeServerPassword(serverId, password);
+                await this._postSecretsState();
+            }
+        }
+
+        return {
+            host: message.host,
+            port: message.port,
+            username: message.username,
+            authType: message.authType || 'key',
+            privateKeyPath: message.privateKeyPath,
+            password: password,
+            remotePath: message.remotePath,
+            afterUploadCommand: profile?.afterUploadCommand ?? config.get('deploy.afterUploadCommand'),
+            telegramEnabled: config.get('telegram.enabled'),
+            telegramUpload: config.get('telegram.upload'),
+            telegramBotToken: await getTelegramBotToken(),
+            telegramChatId: config.get('telegram.chatId'),
+            incrementalUpload: message.incrementalUpload,
+            uploadConcurrency: config.get('deploy.uploadConcurrency', 4),
+            uploadRetries: config.get('deploy.retries', 3),
+            retryDelaySeconds: config.get('deploy.retryDelaySeconds', 2),
+            connectTimeoutSeconds: config.get('deploy.connectTimeoutSeconds', 20),
+            idleTimeoutSeconds: config.get('deploy.idleTimeoutSeconds', 30),
+            uploadStrategy: profile?.server?.uploadStrategy ?? config.get<'files' | 'archive'>('deploy.uploadStrategy', 'files'),
+            mirror: message.mirror,
+            protectedPaths: profile?.server?.protectedPaths ?? config.get<string[]>('deploy.protectedPaths', []),
+            jumpHosts: profile?.server?.jumpHosts ?? config.get<SshEndpoint[]>('server.jumpHosts', []),
+            atomicRelease: message.atomicRelease,
+            keepReleases: config.get('deploy.keepReleases', 5),
+            systemd: project ? this._getSystemdOptions(message, project, profile) : undefined
+        };
+    }
+
+    /**
+     * systemd 选项：表单勾选 > profile > 全局配置
+     */
+    private _getSystemdOptions(message: any, project: ProjectInfo, profile?: DeployProfile) {
+        const overrides = { ...profile?.systemd };
+        if (typeof message.systemdEnabled === 'boolean') {
+            overrides.enabled = message.systemdEnabled;
+        }
+        return getSystemdOptions(project, overrides);
+    }
+
+    /**
+     * 服务面板操作的目标：部署配置和 systemd 服务名
+     */
+    private async _getServiceTarget(message: any): Promise<{ config: DeployConfig; serviceName: string } | undefined> {
+        const project = this._projects.find(p => p.name === message.projectName);
+        if (!project) {
+            this._postMessage({ command: 'serviceStatus', error: '未找到项目' });
+            return undefined;
+        }
+
+        const profile = this._getProfileSafe(message.profileName);
+        if (profile === null) {
+            this._postMessage({ command: 'serviceStatus', error: '无法读取部署配置文件' });
+            return undefined;
+        }
+        const config = await this._buildDeployConfig(message, profile);
+        if (!config) {
+            this._postMessage({ command: 'serviceStatus', error: '未提供 SSH 密码' });
+            return undefined;
+        }
+
+        const options = this._getSystemdOptions(message, project, profile);
+        return { config, serviceName: getServiceName(options, project.assemblyName) };
+    }
+
+    /**
+     * 连接当前表单/配置中的服务器，按 CPU 架构和 C 库选择目标运行时
+     */
+    private async _handleDetectRuntime(message: any) {
+        const profile = this._getProfileSafe(message.profileName);
+        if (profile === null) {
+            this._postMessage({ command: 'runtimeDetected', error: '无法读取部署配置文件' });
+            return;
+        }
+        const config = await this._buildDeployConfig(message, profile);
+        if (!config) {
+            this._postMessage({ command: 'runtimeDetected', error: '未提供 SSH 密码' });
+            return;
+        }
+
+        try {
+            const detected = await detectServerRuntime(config, this._outputChannel);
+            this._postMessage({ command: 'runtimeDetected', ...detected });
+        } catch (err: any) {
+            this._outputChannel.appendLine(`[Preflight] ✗ Failed to detect runtime: ${err.message}`);
+            this._postMessage({ command: 'runtimeDetected', error: err.message });
+        }
+    }
+
+    private async _handleServiceStatus(message: any) {
+        const target = await this._getServiceTarget(message);
+        if (!target) {
+            return;
+        }
+
+        try {
+            const status = await getServiceStatus(target.config, target.serviceName, this._outputChannel);
+            this._postMessage({ command: 'serviceStatus', status });
+        } catch (err: any) {
+            this._outputChannel.appendLine(`[Service] ✗ Failed to read status: ${err.message}`);
+            this._postMessage({ command: 'serviceStatus', error: err.message });
+        }
+    }
+
+    private async _handleServiceAction(message: any) {
+        const action: ServiceAction = message.action;
+        const target = await this._getServiceTarget(message);
+        if (!target) {
+            return;
+        }
+
+        if (action === 'stop') {
+            const confirm = await vscode.window.showWarningMessage(
+                `确定要停止 ${target.config.host} 上的 ${target.serviceName} 服务吗？`,
+                { modal: true },
+                '停止'
+            );
+            if (confirm !== '停止') {
+                this._postMessage({ command: 'serviceStatus' });
+                return;
+            }
+        }
+
+        const result = await controlService(target.config, target.serviceName, action, this._outputChannel);
+        if (!result.success) {
+            vscode.window.showErrorMessage(`服务操作失败: ${result.error}`);
+        }
+        await this._handleServiceStatus(message);
+    }
+
+    private async _handleToggleServiceLogs(message: any) {
+        if (this._serviceLogs.running) {
+            this._serviceLogs.stop();
+            return;
+        }
+
+        const target = await this._getServiceTarget(message);
+        if (!target) {
+            this._postMessage({ command: 'serviceLogsState', running: false });
+            return;
+        }
+
+        try {
+            await this._serviceLogs.start(target.config, target.serviceName, this._outputChannel);
+        } catch (err: any) {
+            this._outputChannel.appendLine(`[Service] ✗ Failed to stream logs: ${err.message}`);
+            vscode.window.showErrorMessage(`无法读取服务日志: ${err.message}`);
+            this._postMessage({ command: 'serviceLogsState', running: false });
+        }
+    }
 
-        // 获取 macOS 打包配置
-        const macosConfig = vscode.workspace.getConfiguration('dotnetDeploy.macos');
-        const macosEnabled = macosConfig.get<boolean>('enabled', false);
+    /**
+     * 在编辑器中显示将要安装的 systemd 单元文件
+     */
+    private async _previewSystemdUnit(message: any) {
+        const project = this._projects.find(p => p.name === message.projectName);
+        if (!project) {
+            vscode.window.showWarningMessage('请先选择一个项目');
+            return;
+        }
 
-        // 状态回调 - 更新 UI 显示当前阶段
-        const onStatus = (phase: PublishPhase, statusMessage: string) => {
-            // 根据部署模式和配置决定显示哪些阶段
-            if (deployTarget === 'local') {
-                // 本地模式：编译 → [压缩] → [打包]
-                const phaseMap: Record<PublishPhase, string> = {
-                    'compile': '编译中',
-                    'upx': '压缩中',
-                    'package': '打包中'
-                };
-                const btn = this._view?.webview;
-                if (btn) {
-                    this._postMessage({
-                        command: 'localStatus',
-                        phase: phase,
-                        message: phaseMap[phase] || statusMessage
-                    });
-                }
-            }
-            // 服务器模式使用原有的 progress bar
-        };
+        const profile = this._getProfileSafe(message.profileName);
+        if (profile === null) {
+            return;
+        }
+        const options = this._getSystemdOptions(message, project, profile);
+        const unit = generateUnitFile(options, {
+            assemblyName: project.assemblyName,
+            appDir: getRemoteAppDir(message, project.assemblyName),
+            // 主机字段为 ssh config 别名时，使用其中的 User
+            sshUser: resolveSshHost(message.host)?.user || message.username,
+            environmentFile: hasEnvironmentVariables(profile?.appConfig) ? getRemoteEnvFilePath(message, project.assemblyName) : undefined
+        });
+        const header = `# /etc/systemd/system/${getServiceName(options, project.assemblyName)}.service\n`;
 
-        const publishResult = await publish({
-            projectPath: project.path,
-            outputPath: publishDir,
-            selfContained: message.selfContained,
-            singleFile: message.singleFile,
-            debugSymbols: message.debugSymbols,
-            disableSymbols: message.disableSymbols,
-            publishAot: message.publishAot,
-            stripSymbols: message.stripSymbols,
-            invariantGlobalization: message.invariantGlobalization,
-            runtime: message.runtime,
-            upxEnabled: upxEnabled,
-            upxLevel: upxLevel,
-            onStatus: onStatus
-        }, this._outputChannel);
+        const doc = await vscode.workspace.openTextDocument({ content: header + unit, language: 'ini' });
+        await vscode.window.showTextDocument(doc);
+    }
 
-        if (!publishResult.success) {
-            this._postMessage({ command: 'error', message: '发布失败！' });
+    /**
+     * 回滚到上一个版本并重新执行启动命令
+     */
+    private async _handleRollback(message: any) {
+        const project = this._projects.find(p => p.name === message.projectName);
+        if (!project) {
+            this._postMessage({ command: 'error', message: '未找到项目' });
             return;
         }
 
-        if (deployTarget === 'local') {
-            this._postMessage({
-                command: 'success',
-                message: '发布成功！',
-                path: publishResult.outputPath
-            });
-            vscode.window.showInformationMessage(`✓ ${project.name} 已发布到 ${publishDir}`);
+        const confirm = await vscode.window.showWarningMessage(
+            `确定要将 ${project.name} 回滚到上一个版本吗？`,
+            { modal: true },
+            '回滚'
+        );
+        if (confirm !== '回滚') {
+            this._postMessage({ command: 'error', message: '已取消回滚' });
             return;
         }
 
-        const config = vscode.workspace.getConfiguration('dotnetDeploy');
-        const deployConfig: DeployConfig = {
-            host: message.host,
-            port: message.port,
-            username: message.username,
-            authType: message.authType || 'key',
-            privateKeyPath: message.privateKeyPath,
-            password: message.password,
-            remotePath: message.remotePath,
-            afterUploadCommand: config.get('deploy.afterUploadCommand'),
-            telegramEnabled: config.get('telegram.enabled'),
-            telegramUpload: config.get('telegram.upload'),
-            telegramBotToken: config.get('telegram.botToken'),
-            telegramChatId: config.get('telegram.chatId'),
-            incrementalUpload: message.incrementalUpload
-        };
-
-        this._postMessage({ command: 'status', phase: 'upload' });
-        this._outputChannel.appendLine(`[Deploy] Uploading to ${message.host}...`);
+        this._outputChannel.clear();
+        this._outputChannel.show(true);
 
-        const deployResult = await deploy(deployConfig, publishDir, project.assemblyName, this._outputChannel);
-        if (!deployResult.success) {
-            this._postMessage({ command: 'error', message: '上传失败！' });
+        const profile = this._getProfileSafe(message.profileName);
+        if (profile === null) {
+            this._postMessage({ command: 'error', message: '无法读取部署配置文件' });
+            return;
+        }
+        const baseConfig = await this._buildDeployConfig(message, profile);
+        if (!baseConfig) {
+            this._postMessage({ command: 'error', message: '未提供 SSH 密码' });
             return;
         }
+        // 回滚只在原子发布目录结构下有意义
+        const deployConfig: DeployConfig = { ...baseConfig, atomicRelease: true };
 
-        this._postMessage({ command: 'status', phase: 'start' });
-        this._outputChannel.appendLine(`[Deploy] Starting service...`);
+        this._outputChannel.appendLine(`[Deploy] Rolling back ${project.name} on ${message.host}...`);
+        const rollbackResult = await rollback(deployConfig, project.assemblyName, this._outputChannel);
+        if (!rollbackResult.success) {
+            this._postMessage({ command: 'error', message: `回滚失败: ${rollbackResult.error}` });
+            return;
+        }
 
+        this._outputChannel.appendLine(`[Deploy] Restarting service...`);
         const startResult = await executeRemote(deployConfig, project.assemblyName, this._outputChannel);
         if (startResult.success) {
-            this._postMessage({ command: 'success', message: '部署成功！' });
-            vscode.window.showInformationMessage(`✓ ${project.name} 部署成功！`);
+            this._postMessage({ command: 'success', message: `已回滚到 ${rollbackResult.releaseId}` });
+            vscode.window.showInformationMessage(`✓ ${project.name} 已回滚到 ${rollbackResult.releaseId}`);
         } else {
-            this._postMessage({ command: 'error', message: '启动失败！' });
+            this._postMessage({ command: 'error', message: '回滚后启动失败！' });
         }
     }
 
@@ -408,7 +1523,10 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 break;
             case 'windowsSdk':
                 this._outputChannel.appendLine('[Install] Downloading Windows SDK...');
-                const sdkResult = await downloadWindowsSdk(this._outputChannel);
+                let sdkResult: { success: boolean; error?: string } = { success: false };
+                await this._runCancellable(async token => {
+                    sdkResult = await downloadWindowsSdk(this._outputChannel, undefined, token);
+                });
                 result = { success: sdkResult.success, error: sdkResult.error, tool: 'windowsSdk' as const };
                 break;
             default:
@@ -428,6 +1546,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     }
 
     private _postMessage(message: any) {
+        this._run?.handleMessage(message);
         if (this._view) {
             this._view.webview.postMessage(message);
         }
@@ -473,6 +1592,35 @@ body { padding: 12px; font-size: 13px; }
 .local-step.active { opacity: 1; color: #fff; font-weight: 600; }
 .local-step.done { background: var(--vscode-testing-iconPassed); opacity: 1; color: #fff; }
 
+/* 上传进度 */
+.upload-progress { margin: -6px 0 12px; font-size: 10px; }
+.upload-bar { height: 4px; background: var(--vscode-input-background); border-radius: 2px; overflow: hidden; }
+.upload-bar-fill { height: 100%; width: 0; background: var(--vscode-progressBar-background); transition: width 0.2s; }
+.upload-text { margin-top: 2px; opacity: 0.8; }
+
+/* 服务面板 */
+.service-status { font-size: 11px; margin-bottom: 6px; word-break: break-all; }
+.service-status .dot { font-size: 10px; margin-right: 4px; }
+.service-status .active { color: var(--vscode-testing-iconPassed); }
+.service-status .failed { color: var(--vscode-testing-iconFailed); }
+.service-status .inactive { opacity: 0.6; }
+.service-actions { display: flex; flex-wrap: wrap; gap: 4px; }
+
+/* 多主机部署状态表 */
+.host-status { margin-bottom: 12px; font-size: 11px; }
+.host-status table { width: 100%; border-collapse: collapse; }
+.host-status td { padding: 2px 4px; border-bottom: 1px solid var(--vscode-panel-border); }
+.host-status td.host { font-family: var(--vscode-editor-font-family); word-break: break-all; }
+.host-status td.state { text-align: right; white-space: nowrap; }
+.host-status .success { color: var(--vscode-testing-iconPassed); }
+.host-status .failed { color: var(--vscode-testing-iconFailed); }
+.host-status .skipped, .host-status .pending, .host-status .cancelled { opacity: 0.6; }
+.host-status td.num { text-align: right; white-space: nowrap; opacity: 0.8; }
+.matrix-runtimes { display: grid; grid-template-columns: 1fr 1fr; margin-top: 4px; }
+.matrix-runtimes.hidden { display: none; }
+.host-status .warn { color: var(--vscode-editorWarning-foreground); }
+#preflightStatus td.state { text-align: left; white-space: normal; }
+
 .cmd-preview-container {
     margin-top: 12px;
     padding: 8px;
@@ -572,6 +1720,17 @@ vscode-dropdown::part(control) { width: 100%; }
     <div class="progress-step" id="s3">启动</div>
 </div>
 
+<div class="upload-progress hidden" id="uploadProgress">
+    <div class="upload-bar"><div class="upload-bar-fill" id="uploadBarFill"></div></div>
+    <div class="upload-text" id="uploadText"></div>
+</div>
+
+<div class="host-status hidden" id="preflightStatus"></div>
+
+<div class="host-status hidden" id="hostStatus"></div>
+
+<div class="host-status hidden" id="matrixStatus"></div>
+
 <div class="local-progress" id="localProgress">
     <div class="local-step" id="ls1">编译</div>
     <div class="local-step" id="ls2">压缩</div>
@@ -602,15 +1761,52 @@ vscode-dropdown::part(control) { width: 100%; }
     // Store toolchain status globally
     let toolchainData = null;
     let isMacOSPlatform = false;
+    let sshHostsData = [];
+    let savedPasswords = [];
+    let profilesData = [];
+
+    // 旧版本把 SSH 密码明文保存在 webview state 中：交给扩展存入 SecretStorage 后删除
+    if (state.password) {
+        vscode.postMessage({
+            command: 'migratePassword',
+            host: state.host,
+            port: parseInt(state.port) || 22,
+            username: state.username || 'root',
+            password: state.password
+        });
+        delete state.password;
+        vscode.setState(state);
+    }
+
+    // 当前主机是否已在 SecretStorage 中保存密码
+    function isPasswordSaved() {
+        const field = (id, fallback) => {
+            const el = document.getElementById(id);
+            return el ? el.value : fallback;
+        };
+        const host = field('host', state.host || '');
+        const port = parseInt(field('port', state.port || 22)) || 22;
+        const username = field('username', state.username || 'root') || 'root';
+        return savedPasswords.includes(username + '@' + host + ':' + port);
+    }
+
+    function updatePasswordPlaceholder() {
+        const el = document.getElementById('password');
+        if (el) el.setAttribute('placeholder', isPasswordSaved() ? '已保存 (留空则使用已保存的密码)' : '');
+    }
 
     window.addEventListener('message', e => {
         const m = e.data;
         if (m.command === 'localStatus') {
             updateLocalStep(m.phase);
+        } else if (m.command === 'deployStarted') {
+            showDeployStarted(m.deployTarget);
         } else if (m.command === 'projects') {
             const mergedConfig = { ...m.config, ...state };
             toolchainData = m.toolchain;
             isMacOSPlatform = m.isMacOS || false;
+            sshHostsData = m.sshHosts || [];
+            profilesData = m.profiles || [];
 
             // Show/hide macOS package button based on platform
             const macosBtn = document.getElementById('macosPackageBtn');
@@ -619,6 +1815,46 @@ vscode-dropdown::part(control) { width: 100%; }
             }
 
             renderForm(m.projects, mergedConfig, m.error, m.toolchain);
+        } else if (m.command === 'serviceStatus') {
+            renderServiceStatus(m.status, m.error);
+        } else if (m.command === 'serviceLogsState') {
+            const btn = document.getElementById('serviceLogsBtn');
+            if (btn) btn.textContent = m.running ? '⏹ 停止日志' : '📜 日志';
+        } else if (m.command === 'uploadProgress') {
+            renderUploadProgress(m.progress);
+        } else if (m.command === 'hostStatus') {
+            renderHostStatus(m.hosts || []);
+        } else if (m.command === 'matrixStatus') {
+            renderMatrixStatus(m.targets || []);
+        } else if (m.command === 'runtimeDetected') {
+            const btn = document.getElementById('detectRuntimeBtn');
+            if (btn) btn.disabled = false;
+            if (m.error) {
+                showMsg('error', '✗ 检测失败: ' + escapeHtml(m.error));
+            } else {
+                const runtimeEl = document.getElementById('runtime');
+                runtimeEl.value = m.runtime;
+                window.saveState(runtimeEl);
+                showMsg('success', '✓ ' + escapeHtml(m.description) + ' → ' + escapeHtml(m.runtime));
+            }
+        } else if (m.command === 'preflight') {
+            renderPreflight(m.checks || []);
+        } else if (m.command === 'profiles') {
+            profilesData = m.profiles || [];
+            if (m.selected !== undefined) {
+                state.profileName = m.selected;
+                vscode.setState(state);
+            }
+            const el = document.getElementById('profile');
+            if (el) {
+                el.innerHTML = renderProfileOptions(state.profileName || '');
+                el.value = state.profileName || '';
+            }
+        } else if (m.command === 'secretsState') {
+            savedPasswords = m.savedPasswords || [];
+            const passwordEl = document.getElementById('password');
+            if (passwordEl) passwordEl.value = '';
+            updatePasswordPlaceholder();
         } else if (m.command === 'toolchainStatus') {
             toolchainData = m.toolchain;
             updateToolchainUI(m.toolchain);
@@ -637,20 +1873,217 @@ vscode-dropdown::part(control) { width: 100%; }
                 msg += ' <a href="#" onclick="openFolder(\\'' + escapedPath + '\\'); return false;" style="color:inherit;text-decoration:underline;margin-left:8px;">📂 打开目录</a>';
             }
             showMsg('success', msg);
-            const btn = document.getElementById('deployBtn');
-            btn.removeAttribute('disabled');
-            btn.textContent = '🚀 发布';
+            resetDeployButtons();
         } else if (m.command === 'error') {
             showMsg('error', '✗ ' + m.message);
             // 隐藏本地进度条
             const localProgress = document.getElementById('localProgress');
             if (localProgress) localProgress.classList.remove('visible');
-            const btn = document.getElementById('deployBtn');
-            btn.removeAttribute('disabled');
-            btn.textContent = '🚀 发布';
+            resetDeployButtons();
+        } else if (m.command === 'cancelled') {
+            showMsg('info', '⏹ 已取消');
+            document.getElementById('progress').classList.remove('visible');
+            const localProgress = document.getElementById('localProgress');
+            if (localProgress) localProgress.classList.remove('visible');
+            resetSteps();
+            resetLocalSteps();
+            renderUploadProgress(null);
+            resetDeployButtons();
         }
     });
 
+    function formatUptime(seconds) {
+        const d = Math.floor(seconds / 86400);
+        const h = Math.floor((seconds % 86400) / 3600);
+        const m = Math.floor((seconds % 3600) / 60);
+        if (d > 0) return d + '天 ' + h + '小时';
+        if (h > 0) return h + '小时 ' + m + '分';
+        return m + '分 ' + (seconds % 60) + '秒';
+    }
+
+    // 远程输出和错误信息插入 innerHTML 前统一转义
+    function escapeHtml(value) {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+    function renderServiceStatus(status, error) {
+        const el = document.getElementById('serviceStatus');
+        if (!el) return;
+        if (error) {
+            el.innerHTML = '<span class="failed">✗ ' + escapeHtml(error) + '</span>';
+            return;
+        }
+        if (!status) {
+            el.innerHTML = '<span class="inactive">点击刷新查看服务状态</span>';
+            return;
+        }
+        if (!status.loaded) {
+            el.innerHTML = '<span class="inactive">服务 ' + escapeHtml(status.name) + ' 未安装</span>';
+            return;
+        }
+        const cls = status.activeState === 'active' ? 'active' : (status.activeState === 'failed' ? 'failed' : 'inactive');
+        let html = '<span class="' + cls + '"><span class="dot">●</span>' + escapeHtml(status.name) + ': ' + escapeHtml(status.activeState) +
+            (status.subState ? ' (' + escapeHtml(status.subState) + ')' : '') + '</span>';
+        if (status.mainPid) html += ' · PID ' + status.mainPid;
+        if (status.uptimeSeconds !== undefined) html += ' · 已运行 ' + formatUptime(status.uptimeSeconds);
+        el.innerHTML = html;
+    }
+
+    function getServiceMessage(command) {
+        const fields = getServerFields();
+        return {
+            command: command,
+            projectName: document.getElementById('project').value,
+            profileName: getProfileName(),
+            ...fields,
+            atomicRelease: isChecked('atomicRelease'),
+            systemdEnabled: isChecked('systemdEnabled')
+        };
+    }
+
+    window.detectRuntime = function() {
+        if (!document.getElementById('host').value) { showMsg('error', '请输入服务器地址'); return; }
+        const btn = document.getElementById('detectRuntimeBtn');
+        if (btn) btn.disabled = true;
+        showMsg('info', '正在检测服务器运行时...');
+        vscode.postMessage(getServiceMessage('detectRuntime'));
+    };
+
+    window.refreshServiceStatus = function() {
+        if (!document.getElementById('host').value) { showMsg('error', '请输入服务器地址'); return; }
+        const el = document.getElementById('serviceStatus');
+        if (el) el.innerHTML = '<span class="inactive">正在查询...</span>';
+        vscode.postMessage(getServiceMessage('serviceStatus'));
+    };
+
+    window.serviceAction = function(action) {
+        if (!document.getElementById('host').value) { showMsg('error', '请输入服务器地址'); return; }
+        const el = document.getElementById('serviceStatus');
+        if (el) el.innerHTML = '<span class="inactive">正在执行 ' + action + '...</span>';
+        vscode.postMessage({ ...getServiceMessage('serviceAction'), action: action });
+    };
+
+    window.toggleServiceLogs = function() {
+        if (!document.getElementById('host').value) { showMsg('error', '请输入服务器地址'); return; }
+        vscode.postMessage(getServiceMessage('toggleServiceLogs'));
+    };
+
+    function formatBytes(bytes) {
+        if (bytes >= 1024 * 1024) return (bytes / 1024 / 1024).toFixed(1) + ' MB';
+        return (bytes / 1024).toFixed(0) + ' KB';
+    }
+
+    function renderUploadProgress(p) {
+        const el = document.getElementById('uploadProgress');
+        if (!el) return;
+        if (!p) {
+            el.className = 'upload-progress hidden';
+            return;
+        }
+        // 压缩包上传时总大小未知，只显示已发送字节数
+        const percent = p.totalBytes > 0 ? Math.floor(p.transferredBytes / p.totalBytes * 100) : 0;
+        document.getElementById('uploadBarFill').style.width = percent + '%';
+        let text = p.totalBytes > 0
+            ? percent + '% · ' + formatBytes(p.transferredBytes) + ' / ' + formatBytes(p.totalBytes)
+            : formatBytes(p.transferredBytes);
+        text += ' · ' + (p.bytesPerSecond / 1024 / 1024).toFixed(2) + ' MB/s';
+        if (p.etaSeconds !== undefined && p.transferredBytes < p.totalBytes) text += ' · 剩余 ' + formatUptime(Math.ceil(p.etaSeconds));
+        text += ' · ' + p.filesDone + '/' + p.totalFiles + ' 文件';
+        document.getElementById('uploadText').textContent = text;
+        el.className = 'upload-progress visible';
+    }
+
+    function renderHostStatus(hosts) {
+        const el = document.getElementById('hostStatus');
+        if (!el) return;
+        if (hosts.length === 0) {
+            el.className = 'host-status hidden';
+            el.innerHTML = '';
+            return;
+        }
+        const labels = {
+            pending: '⏸ 等待', uploading: '⏳ 上传中', starting: '⏳ 启动中', checking: '⏳ 健康检查',
+            success: '✓ 成功', failed: '✗ 失败', skipped: '⏭ 已跳过'
+        };
+        let html = '<table>';
+        hosts.forEach(h => {
+            const title = h.error ? ' title="' + escapeHtml(h.error) + '"' : '';
+            let label = labels[h.status];
+            if (h.status === 'uploading' && h.progress !== undefined) {
+                label += ' ' + h.progress + '%';
+            } else if (h.status === 'uploading' && h.uploadedBytes !== undefined) {
+                label += ' ' + formatBytes(h.uploadedBytes);
+            }
+            html += '<tr><td class="host">' + escapeHtml(h.host) + '</td><td class="state ' + h.status + '"' + title + '>' + label + '</td></tr>';
+        });
+        html += '</table>';
+        el.innerHTML = html;
+        el.className = 'host-status';
+    }
+
+    function renderMatrixStatus(targets) {
+        const el = document.getElementById('matrixStatus');
+        if (!el) return;
+        if (targets.length === 0) {
+            el.className = 'host-status hidden';
+            el.innerHTML = '';
+            return;
+        }
+        const labels = { pending: '⏸ 等待', building: '⏳ 构建中', success: '✓ 成功', failed: '✗ 失败', cancelled: '⏹ 已取消' };
+        let html = '<table>';
+        targets.forEach(t => {
+            const title = t.error ? ' title="' + escapeHtml(t.error) + '"' : '';
+            const size = t.sizeBytes !== undefined ? (t.sizeBytes / 1024 / 1024).toFixed(1) + ' MB' : '';
+            const time = t.durationMs !== undefined ? (t.durationMs / 1000).toFixed(1) + 's' : '';
+            html += '<tr><td class="host">' + escapeHtml(t.runtime) + '</td><td class="num">' + size + '</td><td class="num">' + time + '</td>' +
+                '<td class="state ' + t.status + '"' + title + '>' + labels[t.status] + '</td></tr>';
+        });
+        html += '</table>';
+        el.innerHTML = html;
+        el.className = 'host-status';
+    }
+
+    function getMatrixRuntimes() {
+        return Array.from(document.querySelectorAll('.matrix-rid')).filter(el => el.checked).map(el => el.getAttribute('value'));
+    }
+
+    function renderPreflight(checks) {
+        const el = document.getElementById('preflightStatus');
+        if (!el) return;
+        if (checks.length === 0) {
+            el.className = 'host-status hidden';
+            el.innerHTML = '';
+            return;
+        }
+        const labels = { pass: '✓', fail: '✗', warn: '⚠' };
+        const statusClasses = { pass: 'success', fail: 'failed', warn: 'warn' };
+        let html = '<table>';
+        checks.forEach(c => {
+            const message = escapeHtml(c.message);
+            html += '<tr><td class="host">' + escapeHtml(c.name) + '</td><td class="state ' + statusClasses[c.status] + '" title="' +
+                message + '">' + labels[c.status] + ' ' + message + '</td></tr>';
+        });
+        html += '</table>';
+        el.innerHTML = html;
+        el.className = 'host-status';
+    }
+
+    function renderProfileOptions(selectedName) {
+        let options = '<vscode-option value="">(当前表单)</vscode-option>';
+        profilesData.forEach(p => {
+            const selected = p.name === selectedName ? ' selected' : '';
+            let detail = p.server && p.server.host ? ' (' + p.server.host + ')' : '';
+            if (p.server && p.server.hosts && p.server.hosts.length > 0) detail = ' (' + p.server.hosts.length + ' 台主机)';
+            options += '<vscode-option value="' + p.name + '"' + selected + '>' + p.name + detail + '</vscode-option>';
+        });
+        return options;
+    }
+
     function renderForm(projects, config, error, toolchain) {
         try {
             if (error) {
@@ -677,6 +2110,8 @@ vscode-dropdown::part(control) { width: 100%; }
             }
             html += '</vscode-dropdown></div></div>';
 
+            const runtimes = ['linux-x64', 'linux-arm64', 'linux-musl-x64', 'linux-musl-arm64', 'win-x64', 'win-x86', 'win-arm64', 'osx-x64', 'osx-arm64'];
+
             html += '<vscode-panels activeid="tab-' + deployTarget + '" aria-label="Deploy Target">';
             html += '<vscode-panel-tab id="tab-local" onclick="toggleTarget(\\'local\\')">本地输出</vscode-panel-tab>';
             html += '<vscode-panel-tab id="tab-server" onclick="toggleTarget(\\'server\\')">远程服务器</vscode-panel-tab>';
@@ -684,13 +2119,37 @@ vscode-dropdown::part(control) { width: 100%; }
             html += '<vscode-panel-view id="view-local">';
 html += '<div style="display:flex; flex-direction:column; width:100%">';
             html += '<div class="form-row"><label class="form-label">输出路径</label><vscode-text-field id="localPath" placeholder="留空则发布到 bin/publish" value="' + (config.localPath || '') + '" oninput="saveState(this)"></vscode-text-field></div>';
+            html += '<div class="form-row"><vscode-checkbox id="matrixBuild"' + (config.matrixBuild ? ' checked' : '') + ' onchange="toggleMatrixBuild(this)">多平台构建 (每个运行时输出到 &lt;输出路径&gt;/&lt;RID&gt;)</vscode-checkbox>';
+            html += '<div id="matrixRuntimes" class="matrix-runtimes' + (config.matrixBuild ? '' : ' hidden') + '">';
+            const matrixSelected = config.matrixRuntimes || [];
+            runtimes.forEach(r => {
+                html += '<vscode-checkbox class="matrix-rid" value="' + r + '"' + (matrixSelected.includes(r) ? ' checked' : '') + ' onchange="saveMatrixRuntimes()">' + r + '</vscode-checkbox>';
+            });
+            html += '</div></div>';
 html += '</div>';
             html += '</vscode-panel-view>';
 
             html += '<vscode-panel-view id="view-server">';
 html += '<div style="display:flex; flex-direction:column; width:100%">';
+            html += '<div class="form-row"><label class="form-label">部署配置 (.vscode/dotnet-deploy.json)</label>';
+            html += '<div style="display:flex; align-items:center; gap:4px;">';
+            html += '<vscode-dropdown id="profile" style="flex:1; margin-bottom:0" onchange="selectProfile(this.value)">' + renderProfileOptions(config.profileName || '') + '</vscode-dropdown>';
+            html += '<vscode-button appearance="icon" onclick="saveProfile()" title="将当前表单保存为部署配置"><span class="codicon codicon-save"></span></vscode-button>';
+            html += '<vscode-button appearance="icon" onclick="deleteProfile()" title="删除当前部署配置"><span class="codicon codicon-trash"></span></vscode-button>';
+            html += '<vscode-button appearance="icon" onclick="openProfiles()" title="编辑配置文件"><span class="codicon codicon-edit"></span></vscode-button>';
+            html += '</div></div>';
+            if (sshHostsData.length > 0) {
+                html += '<div class="form-row"><label class="form-label">SSH Config 主机</label><vscode-dropdown id="sshHost" style="width:100%" onchange="selectSshHost(this.value)">';
+                html += '<vscode-option value="">(手动输入)</vscode-option>';
+                sshHostsData.forEach(h => {
+                    const selected = h.alias === config.host ? ' selected' : '';
+                    const detail = h.hostName ? ' (' + (h.user ? h.user + '@' : '') + h.hostName + ')' : '';
+                    html += '<vscode-option value="' + h.alias + '"' + selected + '>' + h.alias + detail + '</vscode-option>';
+                });
+                html += '</vscode-dropdown></div>';
+            }
             html += '<div class="row-2">';
-            html += '<div><label class="form-label">主机 (Host)</label><vscode-text-field id="host" placeholder="192.168.1.100" value="' + (config.host || '') + '" oninput="saveState(this)"></vscode-text-field></div>';
+            html += '<div><label class="form-label">主机 (Host / SSH 别名)</label><vscode-text-field id="host" placeholder="192.168.1.100" value="' + (config.host || '') + '" oninput="saveState(this)"></vscode-text-field></div>';
             html += '<div><label class="form-label">端口</label><vscode-text-field id="port" value="' + (config.port || 22) + '" type="number" oninput="saveState(this)"></vscode-text-field></div>';
             html += '</div>';
             html += '<div class="form-row"><label class="form-label">用户名</label><vscode-text-field id="username" value="' + (config.username || 'root') + '" oninput="saveState(this)"></vscode-text-field></div>';
@@ -700,6 +2159,7 @@ html += '<div style="display:flex; flex-direction:column; width:100%">';
             html += '<vscode-radio-group id="authType" value="' + authType + '" onchange="toggleAuth(this.value)">';
             html += '<vscode-radio value="key">SSH 密钥</vscode-radio>';
             html += '<vscode-radio value="password">密码</vscode-radio>';
+            html += '<vscode-radio value="agent">SSH Agent</vscode-radio>';
             html += '</vscode-radio-group>';
             html += '</div>';
 
@@ -712,9 +2172,29 @@ html += '<div style="display:flex; flex-direction:column; width:100%">';
             html += '<vscode-button appearance="icon" onclick="helpSSH()" title="如何获取 SSH 密钥？"><span class="codicon codicon-question"></span></vscode-button>';
             html += '</div></div>';
 
-            html += '<div class="form-row' + showPass + '" id="passInput"><label class="form-label">密码</label><vscode-text-field id="password" type="password" value="' + (config.password || '') + '" oninput="saveState(this)"></vscode-text-field></div>';
+            html += '<div class="form-row' + (authType === 'agent' ? '' : ' hidden') + '" id="agentInput" style="font-size:11px; opacity:0.8;">使用 ssh-agent / Pageant 中已加载的密钥 (SSH_AUTH_SOCK)</div>';
+            html += '<div class="form-row' + showPass + '" id="passInput"><label class="form-label">密码</label><vscode-text-field id="password" type="password" value="" placeholder="' + (isPasswordSaved() ? '已保存 (留空则使用已保存的密码)' : '') + '"></vscode-text-field></div>';
+            if (config.jumpHosts && config.jumpHosts.length > 0) {
+                html += '<div class="form-row" style="font-size:11px; opacity:0.8;">🔀 跳板机: ' + config.jumpHosts.join(' → ') + ' → 目标主机</div>';
+            }
             html += '<div class="form-row"><label class="form-label">远程路径</label><vscode-text-field id="remotePath" value="' + (config.remotePath || '/opt/apps') + '" oninput="saveState(this)"></vscode-text-field></div>';
             html += '<vscode-checkbox id="incrementalUpload" checked onchange="saveCheckbox(this)" style="margin-top:4px;">增量上传 (仅上传有变化的文件)</vscode-checkbox>';
+            html += '<vscode-checkbox id="mirror"' + (config.mirror ? ' checked' : '') + ' onchange="saveCheckbox(this)">镜像模式 (删除服务器上多余的文件)</vscode-checkbox>';
+            html += '<vscode-checkbox id="atomicRelease"' + (config.atomicRelease ? ' checked' : '') + ' onchange="saveCheckbox(this)">原子发布 (releases/ + current 软链接)</vscode-checkbox>';
+            html += '<div style="display:flex; align-items:center; gap:4px;">';
+            html += '<vscode-checkbox id="systemdEnabled"' + (config.systemdEnabled ? ' checked' : '') + ' onchange="saveCheckbox(this)" style="flex:1">systemd 服务 (自动生成并安装)</vscode-checkbox>';
+            html += '<vscode-button appearance="icon" onclick="previewSystemdUnit()" title="预览 systemd 单元文件"><span class="codicon codicon-eye"></span></vscode-button>';
+            html += '</div>';
+            html += '<vscode-button id="rollbackBtn" appearance="secondary" style="width:100%; margin-top:4px;">↩️ 回滚到上一版本</vscode-button>';
+            html += '<div class="section" style="margin-top:10px;"><div class="section-title">🛠 服务</div>';
+            html += '<div id="serviceStatus" class="service-status"><span class="inactive">点击刷新查看服务状态</span></div>';
+            html += '<div class="service-actions">';
+            html += '<vscode-button appearance="secondary" onclick="refreshServiceStatus()" title="刷新状态">↻</vscode-button>';
+            html += '<vscode-button appearance="secondary" onclick="serviceAction(\\'start\\')">▶ 启动</vscode-button>';
+            html += '<vscode-button appearance="secondary" onclick="serviceAction(\\'stop\\')">■ 停止</vscode-button>';
+            html += '<vscode-button appearance="secondary" onclick="serviceAction(\\'restart\\')">⟳ 重启</vscode-button>';
+            html += '<vscode-button id="serviceLogsBtn" appearance="secondary" onclick="toggleServiceLogs()">📜 日志</vscode-button>';
+            html += '</div></div>';
 html += '</div>';
             html += '</vscode-panel-view>';
             html += '</vscode-panels>';
@@ -752,23 +2232,26 @@ html += '</div>';
             html += '<vscode-checkbox id="invariantGlobalization"' + (config.invariantGlobalization ? ' checked' : '') + ' onchange="saveCheckbox(this)">无全球化依赖 (Invariant Globalization)</vscode-checkbox>';
             html += '</div>';
 
-            html += '<div class="form-row"><vscode-dropdown id="runtime" style="width:100%" onchange="saveState(this)">';
-            html += '<span slot="label" style="font-size:11px; font-weight:600; opacity:0.6; margin-bottom:4px; display:block">目标运行时</span>';
-            const runtimes = ['linux-x64', 'linux-arm64', 'win-x64', 'win-x86', 'win-arm64', 'osx-x64', 'osx-arm64'];
+            html += '<div class="form-row"><span style="font-size:11px; font-weight:600; opacity:0.6; margin-bottom:4px; display:block">目标运行时</span>';
+            html += '<div style="display:flex; gap:4px; align-items:center;"><vscode-dropdown id="runtime" style="flex:1" onchange="saveState(this)">';
             runtimes.forEach(r => {
                 const selected = r === config.runtime ? ' selected' : '';
                 html += '<vscode-option value="' + r + '"' + selected + '>' + r + '</vscode-option>';
             });
-            html += '</vscode-dropdown></div>';
+            html += '</vscode-dropdown>';
+            html += '<vscode-button id="detectRuntimeBtn" appearance="icon" title="从服务器检测" onclick="detectRuntime()">🔍</vscode-button></div></div>';
 
             // Cross-compile toolchain status (only show when AOT is enabled and non-native target)
             html += '<div id="toolchainContainer"></div>';
 
             html += '<div class="cmd-preview-container"><span class="cmd-preview-label">命令预览</span><div id="cmdPreview" class="cmd-preview">...</div></div>';
             html += '<vscode-button id="deployBtn" style="width:100%; margin-top:10px;">🚀 发布</vscode-button>';
+            html += '<vscode-button id="cancelBtn" appearance="secondary" style="width:100%; margin-top:4px; display:none;">⏹ 取消</vscode-button>';
 
             document.getElementById('content').innerHTML = html;
             document.getElementById('deployBtn').addEventListener('click', doDeploy);
+            document.getElementById('cancelBtn').addEventListener('click', doCancel);
+            document.getElementById('rollbackBtn').addEventListener('click', doRollback);
 
             // Define functions early to ensure availability
             window.saveState = function(el) {
@@ -777,17 +2260,95 @@ html += '</div>';
                 state[key] = el.value;
                 vscode.setState(state);
                 updateCommandPreview();
+                if (key === 'host' || key === 'port' || key === 'username') updatePasswordPlaceholder();
             };
             window.saveCheckbox = function(el) {
                 state[el.id] = el.checked;
                 vscode.setState(state);
                 updateCommandPreview();
             };
+            window.toggleMatrixBuild = function(el) {
+                window.saveCheckbox(el);
+                document.getElementById('matrixRuntimes').classList.toggle('hidden', !el.checked);
+            };
+            window.saveMatrixRuntimes = function() {
+                state.matrixRuntimes = getMatrixRuntimes();
+                vscode.setState(state);
+            };
+            window.selectSshHost = function(alias) {
+                const entry = sshHostsData.find(h => h.alias === alias);
+                if (!entry) return;
+                const setField = (id, value) => {
+                    const el = document.getElementById(id);
+                    if (el && value !== undefined && value !== null) {
+                        el.value = String(value);
+                        window.saveState(el);
+                    }
+                };
+                // 主机字段保存别名，其余字段由部署时从 ~/.ssh/config 解析
+                setField('host', entry.alias);
+                setField('port', entry.port || 22);
+                setField('username', entry.user);
+                setField('keyPath', entry.identityFile);
+            };
+            window.selectProfile = function(name) {
+                state['profileName'] = name;
+                vscode.setState(state);
+                const profile = profilesData.find(p => p.name === name);
+                if (!profile) return;
+
+                const server = profile.server || {};
+                const publish = profile.publish || {};
+                const setField = (id, value) => {
+                    const el = document.getElementById(id);
+                    if (el && value !== undefined && value !== null) {
+                        el.value = String(value);
+                        window.saveState(el);
+                    }
+                };
+                const setCheckbox = (id, value) => {
+                    const el = document.getElementById(id);
+                    if (el && typeof value === 'boolean') {
+                        el.checked = value;
+                        window.saveCheckbox(el);
+                    }
+                };
+
+                // 多主机配置在表单中显示第一台主机，部署时使用完整列表
+                const firstHost = server.hosts && server.hosts.length > 0 ? server.hosts[0] : undefined;
+                setField('host', server.host || (typeof firstHost === 'string' ? firstHost : firstHost && firstHost.host));
+                setField('port', server.port);
+                setField('username', server.username);
+                setField('keyPath', server.privateKeyPath);
+                setField('remotePath', server.remotePath);
+                if (server.authType) {
+                    document.getElementById('authType').value = server.authType;
+                    window.toggleAuth(server.authType);
+                }
+                setCheckbox('incrementalUpload', server.incrementalUpload);
+                setCheckbox('atomicRelease', server.atomicRelease);
+                setCheckbox('mirror', server.mirror);
+                setCheckbox('systemdEnabled', profile.systemd && profile.systemd.enabled);
+
+                setField('runtime', publish.runtime);
+                const publishKeys = ['selfContained', 'singleFile', 'publishAot', 'disableSymbols', 'stripSymbols', 'invariantGlobalization'];
+                if (publishKeys.some(key => typeof publish[key] === 'boolean')) {
+                    // 配置中的发布选项需要在自定义模式下才不会被简易模式覆盖
+                    window.toggleMode('advanced');
+                    publishKeys.forEach(key => setCheckbox(key, publish[key]));
+                }
+
+                // 自动回滚依赖 releases/ 目录，未启用原子发布时部署会被拒绝
+                if (profile.healthCheck && profile.healthCheck.rollbackOnFailure && !isChecked('atomicRelease')) {
+                    showMsg('error', '✗ 部署配置 "' + escapeHtml(profile.name) + '" 启用了 healthCheck.rollbackOnFailure，需要同时启用原子发布');
+                }
+            };
             window.toggleAuth = function(type) {
                 state['authType'] = type;
                 vscode.setState(state);
                 document.getElementById('keyInput').className = 'form-row' + (type === 'key' ? '' : ' hidden');
                 document.getElementById('passInput').className = 'form-row' + (type === 'password' ? '' : ' hidden');
+                document.getElementById('agentInput').className = 'form-row' + (type === 'agent' ? '' : ' hidden');
             };
             window.toggleTarget = function(target) {
                 state['deployTarget'] = target;
@@ -937,9 +2498,45 @@ html += '</div>';
             if (!host) { showMsg('error', '请输入服务器地址'); return; }
         }
 
+        const matrixRuntimes = deployTarget === 'local' && isChecked('matrixBuild') ? getMatrixRuntimes() : [];
+        if (deployTarget === 'local' && isChecked('matrixBuild') && matrixRuntimes.length === 0) {
+            showMsg('error', '请选择至少一个运行时'); return;
+        }
+
+        showDeployStarted(deployTarget);
+
+        vscode.postMessage({
+            command: 'deploy',
+            deployTarget: deployTarget,
+            projectName: project,
+            profileName: deployTarget === 'server' ? getProfileName() : '',
+            ...getServerFields(),
+            localPath: document.getElementById('localPath').value,
+            runtime: document.getElementById('runtime').value,
+            matrixRuntimes: matrixRuntimes,
+            selfContained: isChecked('selfContained'),
+            singleFile: isChecked('singleFile'),
+            disableSymbols: isChecked('disableSymbols'),
+            publishAot: isChecked('publishAot'),
+            stripSymbols: isChecked('stripSymbols'),
+            invariantGlobalization: isChecked('invariantGlobalization'),
+            incrementalUpload: isChecked('incrementalUpload'),
+            mirror: isChecked('mirror'),
+            atomicRelease: isChecked('atomicRelease'),
+            systemdEnabled: isChecked('systemdEnabled')
+        });
+    }
+
+    function showDeployStarted(deployTarget) {
         const btn = document.getElementById('deployBtn');
+        // 从部署历史重新部署时表单可能尚未渲染
+        if (!btn) return;
         btn.setAttribute('disabled', '');
         btn.textContent = '发布中...';
+        const cancelBtn = document.getElementById('cancelBtn');
+        cancelBtn.removeAttribute('disabled');
+        cancelBtn.textContent = '⏹ 取消';
+        cancelBtn.style.display = '';
 
         if (deployTarget === 'server') {
             document.getElementById('progress').classList.add('visible');
@@ -951,27 +2548,59 @@ html += '</div>';
 
         resetSteps();
         resetLocalSteps();
+        renderPreflight([]);
+        renderHostStatus([]);
+        renderMatrixStatus([]);
+        renderUploadProgress(null);
         hideMsg();
+    }
 
-        const authType = document.getElementById('authType').value;
+    function doCancel() {
+        const cancelBtn = document.getElementById('cancelBtn');
+        cancelBtn.setAttribute('disabled', '');
+        cancelBtn.textContent = '正在取消...';
+        vscode.postMessage({ command: 'cancel' });
+    }
 
-        const isChecked = (id) => {
-            const el = document.getElementById(id);
-            return el ? el.checked : false;
-        };
+    function resetDeployButtons() {
+        const btn = document.getElementById('deployBtn');
+        if (btn) {
+            btn.removeAttribute('disabled');
+            btn.textContent = '🚀 发布';
+        }
+        const cancelBtn = document.getElementById('cancelBtn');
+        if (cancelBtn) cancelBtn.style.display = 'none';
+    }
 
-        vscode.postMessage({
-            command: 'deploy',
-            deployTarget: deployTarget,
-            projectName: project,
+    function isChecked(id) {
+        const el = document.getElementById(id);
+        return el ? el.checked : false;
+    }
+
+    function getServerFields() {
+        return {
             host: document.getElementById('host').value,
             port: parseInt(document.getElementById('port').value) || 22,
             username: document.getElementById('username').value || 'root',
-            authType: authType,
+            authType: document.getElementById('authType').value,
             privateKeyPath: document.getElementById('keyPath').value,
             password: document.getElementById('password').value,
-            remotePath: document.getElementById('remotePath').value,
-            localPath: document.getElementById('localPath').value,
+            remotePath: document.getElementById('remotePath').value
+        };
+    }
+
+    function getProfileName() {
+        const el = document.getElementById('profile');
+        return el ? el.value : '';
+    }
+
+    window.saveProfile = function() {
+        const fields = getServerFields();
+        delete fields.password;
+        vscode.postMessage({
+            command: 'saveProfile',
+            profileName: getProfileName(),
+            ...fields,
             runtime: document.getElementById('runtime').value,
             selfContained: isChecked('selfContained'),
             singleFile: isChecked('singleFile'),
@@ -979,10 +2608,50 @@ html += '</div>';
             publishAot: isChecked('publishAot'),
             stripSymbols: isChecked('stripSymbols'),
             invariantGlobalization: isChecked('invariantGlobalization'),
-            incrementalUpload: isChecked('incrementalUpload')
+            incrementalUpload: isChecked('incrementalUpload'),
+            mirror: isChecked('mirror'),
+            atomicRelease: isChecked('atomicRelease'),
+            systemdEnabled: isChecked('systemdEnabled')
+        });
+    };
+
+    window.deleteProfile = function() {
+        const name = getProfileName();
+        if (!name) { showMsg('error', '请先选择一个部署配置'); return; }
+        vscode.postMessage({ command: 'deleteProfile', name: name });
+    };
+
+    window.openProfiles = function() {
+        vscode.postMessage({ command: 'openProfiles' });
+    };
+
+    function doRollback() {
+        const project = document.getElementById('project').value;
+        if (!project) { showMsg('error', '请选择一个项目'); return; }
+        if (!document.getElementById('host').value) { showMsg('error', '请输入服务器地址'); return; }
+
+        hideMsg();
+        vscode.postMessage({
+            command: 'rollback',
+            projectName: project,
+            profileName: getProfileName(),
+            ...getServerFields(),
+            systemdEnabled: isChecked('systemdEnabled')
         });
     }
 
+    window.previewSystemdUnit = function() {
+        vscode.postMessage({
+            command: 'previewSystemdUnit',
+            projectName: document.getElementById('project').value,
+            profileName: getProfileName(),
+            ...getServerFields(),
+            password: undefined,
+            atomicRelease: isChecked('atomicRelease'),
+            systemdEnabled: true
+        });
+    };
+
     function updateStep(phase) {
         const map = { 'publish': 1, 'upload': 2, 'start': 3 };
         const idx = map[phase];
@@ -6,6 +6,10 @@ export interface ProjectInfo {
     path: string;
     assemblyName: string;
     outputType: string;
+    /** Project SDK, e.g. Microsoft.NET.Sdk.Web for ASP.NET Core */
+    sdk: string;
+    /** e.g. net8.0; the first entry when the project multi-targets */
+    targetFramework?: string;
 }
 
 /**
@@ -43,11 +47,21 @@ export function parseProject(csprojPath: string): ProjectInfo {
     const outputTypeMatch = content.match(/<OutputType>([^<]+)<\/OutputType>/i);
     const outputType = outputTypeMatch ? outputTypeMatch[1] : 'Library';
 
+    // Extract Sdk attribute, default to Microsoft.NET.Sdk
+    const sdkMatch = content.match(/<Project\s+[^>]*Sdk="([^"]+)"/i);
+    const sdk = sdkMatch ? sdkMatch[1] : 'Microsoft.NET.Sdk';
+
+    // Extract TargetFramework, or the first of TargetFrameworks
+    const frameworkMatch = content.match(/<TargetFrameworks?>([^<]+)<\/TargetFrameworks?>/i);
+    const targetFramework = frameworkMatch ? frameworkMatch[1].split(';')[0].trim() : undefined;
+
     return {
         name,
         path: csprojPath,
         assemblyName,
-        outputType
+        outputType,
+        sdk,
+        targetFramework
     };
 }
 
@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Values resolved for one host from ~/.ssh/config
+ */
+export interface SshHostConfig {
+    /** Alias as written after `Host` */
+    alias: string;
+    hostName?: string;
+    user?: string;
+    port?: number;
+    identityFiles: string[];
+    proxyJump?: string;
+}
+
+interface SshConfigBlock {
+    patterns: string[];
+    /** Patterns of the Host blocks an Include was nested in; every list must match as well */
+    scopes: string[][];
+    options: [string, string][];
+}
+
+/**
+ * Expand a leading ~ to the home directory
+ */
+export function expandPath(filePath: string): string {
+    if (filePath.startsWith('~')) {
+        return path.join(os.homedir(), filePath.slice(1));
+    }
+    return filePath;
+}
+
+/**
+ * Get the ssh config file path from settings
+ */
+export function getSshConfigPath(): string {
+    const config = vscode.workspace.getConfiguration('dotnetDeploy');
+    return expandPath(config.get<string>('server.sshConfigPath') || '~/.ssh/config');
+}
+
+/**
+ * Split a config line into keyword and arguments, honouring `Key=value` and quotes
+ */
+function splitLine(line: string): [string, string[]] | null {
+    const match = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.*)$/);
+    if (!match) {
+        return null;
+    }
+
+    const args: string[] = [];
+    const argPattern = /"([^"]*)"|(\S+)/g;
+    let argMatch: RegExpExecArray | null;
+    while ((argMatch = argPattern.exec(match[2])) !== null) {
+        args.push(argMatch[1] ?? argMatch[2]);
+    }
+
+    return [match[1].toLowerCase(), args];
+}
+
+/**
+ * Expand an Include argument into file paths (relative to ~/.ssh, glob in the file name only)
+ */
+function expandInclude(pattern: string): string[] {
+    let fullPath = expandPath(pattern);
+    if (!path.isAbsolute(fullPath)) {
+        fullPath = path.join(os.homedir(), '.ssh', fullPath);
+    }
+
+    const dir = path.dirname(fullPath);
+    const base = path.basename(fullPath);
+    if (!base.includes('*') && !base.includes('?')) {
+        return fs.existsSync(fullPath) ? [fullPath] : [];
+    }
+
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir)
+        .filter(name => matchPattern(base, name))
+        .sort()
+        .map(name => path.join(dir, name));
+}
+
+/**
+ * Parse an ssh config file into Host blocks. Match blocks are skipped.
+ * An Include inside a Host block only applies to hosts matching that block, so its blocks are scoped to it.
+ */
+function parseSshConfigFile(filePath: string, depth = 0, scopes: string[][] = []): SshConfigBlock[] {
+    if (depth > 8 || !fs.existsSync(filePath)) {
+        return [];
+    }
+
+    const blocks: SshConfigBlock[] = [];
+    // 第一个 Host 之前的选项对所有主机生效 (被 Host 块内的 Include 引入时只对该块匹配的主机生效)
+    let current: SshConfigBlock | null = { patterns: ['*'], scopes, options: [] };
+    blocks.push(current);
+
+    for (const rawLine of fs.readFileSync(filePath, 'utf-8').split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const parsed = splitLine(line);
+        if (!parsed) {
+            continue;
+        }
+        const [keyword, args] = parsed;
+
+        if (keyword === 'host') {
+            current = { patterns: args, scopes, options: [] };
+            blocks.push(current);
+        } else if (keyword === 'match') {
+            current = null;
+        } else if (keyword === 'include') {
+            // Match 块不支持，其中的 Include 一并跳过
+            if (!current) {
+                continue;
+            }
+            const includeScopes = [...current.scopes, current.patterns];
+            for (const arg of args) {
+                for (const included of expandInclude(arg)) {
+                    blocks.push(...parseSshConfigFile(included, depth + 1, includeScopes));
+                }
+            }
+            // Include 之后的选项仍属于原来的块，按文件顺序排在引入的块之后
+            current = { patterns: current.patterns, scopes: current.scopes, options: [] };
+            blocks.push(current);
+        } else if (current && args.length > 0) {
+            current.options.push([keyword, args.join(' ')]);
+        }
+    }
+
+    return blocks;
+}
+
+/**
+ * Match a single value against an ssh glob pattern (* and ?)
+ */
+function matchPattern(pattern: string, value: string): boolean {
+    const regex = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`, 'i').test(value);
+}
+
+/**
+ * Check a Host pattern list, where any negated match excludes the host
+ */
+function matchPatterns(patterns: string[], host: string): boolean {
+    let matched = false;
+    for (const pattern of patterns) {
+        if (pattern.startsWith('!')) {
+            if (matchPattern(pattern.slice(1), host)) {
+                return false;
+            }
+        } else if (matchPattern(pattern, host)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * Whether a block applies to a host, including the Host blocks its Include was nested in
+ */
+function matchBlock(block: SshConfigBlock, host: string): boolean {
+    return block.scopes.every(patterns => matchPatterns(patterns, host)) && matchPatterns(block.patterns, host);
+}
+
+function isWildcard(pattern: string): boolean {
+    return pattern.startsWith('!') || pattern.includes('*') || pattern.includes('?');
+}
+
+/**
+ * Expand the tokens OpenSSH supports in IdentityFile
+ */
+function expandTokens(value: string, host: SshHostConfig): string {
+    return value
+        .replace(/%d/g, os.homedir())
+        .replace(/%u/g, os.userInfo().username)
+        .replace(/%h/g, host.hostName || host.alias)
+        .replace(/%n/g, host.alias)
+        .replace(/%r/g, host.user || os.userInfo().username)
+        .replace(/%%/g, '%');
+}
+
+/**
+ * Resolve an alias the way ssh does: for each option the first matching value wins
+ */
+function resolveFromBlocks(blocks: SshConfigBlock[], alias: string): SshHostConfig {
+    const result: SshHostConfig = { alias, identityFiles: [] };
+    const seen = new Set<string>();
+
+    for (const block of blocks) {
+        if (!matchBlock(block, alias)) {
+            continue;
+        }
+
+        for (const [keyword, value] of block.options) {
+            if (keyword === 'identityfile') {
+                result.identityFiles.push(value);
+                continue;
+            }
+            if (seen.has(keyword)) {
+                continue;
+            }
+            seen.add(keyword);
+
+            switch (keyword) {
+                case 'hostname':
+                    result.hostName = value.replace(/%h/g, alias);
+                    break;
+                case 'user':
+                    result.user = value;
+                    break;
+                case 'port':
+                    result.port = parseInt(value, 10) || undefined;
+                    break;
+                case 'proxyjump':
+                    result.proxyJump = value.toLowerCase() === 'none' ? undefined : value;
+                    break;
+            }
+        }
+    }
+
+    result.identityFiles = result.identityFiles.map(file => expandPath(expandTokens(file, result)));
+    return result;
+}
+
+/**
+ * Resolve a host alias from ssh config.
+ * Returns undefined unless the alias is named explicitly by a non-wildcard `Host` pattern.
+ */
+export function resolveSshHost(alias: string, configPath = getSshConfigPath()): SshHostConfig | undefined {
+    const blocks = parseSshConfigFile(configPath);
+    const explicit = blocks.some(block =>
+        block.patterns.some(pattern => !isWildcard(pattern) && pattern.toLowerCase() === alias.toLowerCase()) &&
+        matchBlock(block, alias)
+    );
+    return explicit ? resolveFromBlocks(blocks, alias) : undefined;
+}
+
+/**
+ * List every explicit Host alias in ssh config with its resolved values
+ */
+export function listSshHosts(configPath = getSshConfigPath()): SshHostConfig[] {
+    const blocks = parseSshConfigFile(configPath);
+    const aliases: string[] = [];
+
+    for (const block of blocks) {
+        for (const pattern of block.patterns) {
+            if (!isWildcard(pattern) && !aliases.includes(pattern) && matchBlock(block, pattern)) {
+                aliases.push(pattern);
+            }
+        }
+    }
+
+    return aliases.map(alias => resolveFromBlocks(blocks, alias));
+}
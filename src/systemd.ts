@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { ProjectInfo } from './solutionParser';
+
+/**
+ * Settings of the generated systemd service
+ */
+export interface SystemdOptions {
+    enabled: boolean;
+    /** Defaults to the assembly name */
+    serviceName?: string;
+    /** Defaults to the SSH user */
+    user?: string;
+    environment: Record<string, string>;
+    restart: string;
+    restartSec: number;
+    limitNOFILE?: number;
+    memoryMax?: string;
+    cpuQuota?: string;
+}
+
+/**
+ * Values taken from the deploy target when rendering the unit
+ */
+export interface SystemdUnitTarget {
+    assemblyName: string;
+    /** Directory the executable lives in (the `current` link in atomic release mode) */
+    appDir: string;
+    sshUser: string;
+    /** .env file with the profile's environment variables */
+    environmentFile?: string;
+}
+
+/**
+ * Whether the project is an ASP.NET Core app
+ */
+export function isWebProject(project: ProjectInfo): boolean {
+    return /^Microsoft\.NET\.Sdk\.Web$/i.test(project.sdk);
+}
+
+/**
+ * Read systemd settings, apply profile overrides and add ASPNETCORE_URLS for web projects
+ */
+export function getSystemdOptions(project: ProjectInfo, overrides?: Partial<SystemdOptions>): SystemdOptions {
+    const config = vscode.workspace.getConfiguration('dotnetDeploy');
+    const environment: Record<string, string> = {};
+
+    const urls = config.get<string>('systemd.aspnetcoreUrls', '');
+    if (urls && isWebProject(project)) {
+        environment.ASPNETCORE_URLS = urls;
+    }
+
+    return {
+        enabled: config.get<boolean>('systemd.enabled', false),
+        serviceName: config.get<string>('systemd.serviceName') || undefined,
+        user: config.get<string>('systemd.user') || undefined,
+        restart: config.get<string>('systemd.restart', 'always'),
+        restartSec: config.get<number>('systemd.restartSec', 5),
+        limitNOFILE: config.get<number>('systemd.limitNOFILE', 65536) || undefined,
+        memoryMax: config.get<string>('systemd.memoryMax') || undefined,
+        cpuQuota: config.get<string>('systemd.cpuQuota') || undefined,
+        ...overrides,
+        environment: {
+            ...environment,
+            ...config.get<Record<string, string>>('systemd.environment', {}),
+            ...overrides?.environment
+        }
+    };
+}
+
+/**
+ * Name of the systemd service for an app
+ */
+export function getServiceName(options: SystemdOptions, assemblyName: string): string {
+    return options.serviceName || assemblyName;
+}
+
+/**
+ * Quote an Environment= assignment; % must be doubled as systemd expands specifiers
+ */
+function formatEnvironment(key: string, value: string): string {
+    const escaped = `${key}=${value}`
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/%/g, '%%');
+    return `Environment="${escaped}"`;
+}
+
+/**
+ * Escape % in a path setting such as WorkingDirectory= (paths are taken literally, so spaces need no quoting)
+ */
+function formatPath(value: string): string {
+    return value.replace(/%/g, '%%');
+}
+
+/**
+ * Quote an ExecStart= argument; $ must be doubled as systemd expands environment variables in command lines
+ */
+function formatExecArgument(value: string): string {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/%/g, '%%')
+        .replace(/\$/g, '$$$$');
+    return `"${escaped}"`;
+}
+
+/**
+ * Render the .service unit file
+ */
+export function generateUnitFile(options: SystemdOptions, target: SystemdUnitTarget): string {
+    const serviceName = getServiceName(options, target.assemblyName);
+    const lines = [
+        '[Unit]',
+        `Description=${target.assemblyName}`,
+        'After=network-online.target',
+        'Wants=network-online.target',
+        '',
+        '[Service]',
+        'Type=simple',
+        `User=${options.user || target.sshUser}`,
+        `WorkingDirectory=${formatPath(target.appDir)}`,
+        `ExecStart=${formatExecArgument(`${target.appDir}/${target.assemblyName}`)}`,
+        `Restart=${options.restart}`,
+        `RestartSec=${options.restartSec}`,
+        // .NET 收到 SIGINT 时会执行正常关闭流程
+        'KillSignal=SIGINT',
+        `SyslogIdentifier=${serviceName}`,
+    ];
+
+    for (const [key, value] of Object.entries(options.environment)) {
+        lines.push(formatEnvironment(key, value));
+    }
+    if (target.environmentFile) {
+        // EnvironmentFile 中的变量覆盖上面的 Environment=；- 表示文件不存在时忽略
+        lines.push(`EnvironmentFile=-${formatPath(target.environmentFile)}`);
+    }
+    if (options.limitNOFILE) {
+        lines.push(`LimitNOFILE=${options.limitNOFILE}`);
+    }
+    if (options.memoryMax) {
+        lines.push(`MemoryMax=${options.memoryMax}`);
+    }
+    if (options.cpuQuota) {
+        lines.push(`CPUQuota=${options.cpuQuota}`);
+    }
+
+    lines.push('', '[Install]', 'WantedBy=multi-user.target', '');
+    return lines.join('\n');
+}
@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { settings } from './vscodeStub';
+import { DeployManifest, createReleaseId, getChangedFiles, globToRegExp, isProtectedPath, resolveProxyJump } from '../deployer';
+
+describe('deployer', () => {
+    describe('createReleaseId', () => {
+        it('formats the local time as yyyyMMddHHmmssSSS', () => {
+            assert.strictEqual(createReleaseId(new Date(2024, 0, 5, 7, 8, 9, 45)), '20240105070809045');
+            assert.match(createReleaseId(), /^\d{17}$/);
+        });
+
+        it('sorts in time order, including deploys within the same second', () => {
+            const ids = [
+                new Date(2024, 11, 31, 23, 59, 59, 999),
+                new Date(2024, 11, 31, 23, 59, 59, 5),
+                new Date(2025, 0, 1, 0, 0, 0, 0),
+                new Date(2024, 8, 9, 10, 0, 0, 0)
+            ].map(date => createReleaseId(date));
+
+            assert.deepStrictEqual([...ids].sort(), [ids[3], ids[1], ids[0], ids[2]]);
+            assert.notStrictEqual(ids[0], ids[1]);
+        });
+    });
+
+    describe('getChangedFiles', () => {
+        const manifest = (files: Record<string, string>): DeployManifest => ({ version: 1, algorithm: 'sha256', files });
+
+        it('returns new and changed files but not unchanged or remote-only ones', () => {
+            const local = manifest({ 'app.dll': 'a1', 'app.pdb': 'b2', 'wwwroot/site.css': 'c3', 'new.json': 'd4' });
+            const remote = manifest({ 'app.dll': 'a1', 'app.pdb': 'changed', 'wwwroot/site.css': 'c3', 'old.dll': 'e5' });
+
+            assert.deepStrictEqual(getChangedFiles(local, remote), ['app.pdb', 'new.json']);
+        });
+
+        it('uploads everything against an empty manifest and nothing against an identical one', () => {
+            const local = manifest({ 'app.dll': 'a1', 'sub/lib.dll': 'b2' });
+
+            assert.deepStrictEqual(getChangedFiles(local, manifest({})), ['app.dll', 'sub/lib.dll']);
+            assert.deepStrictEqual(getChangedFiles(local, manifest({ ...local.files })), []);
+        });
+
+        it('compares paths exactly', () => {
+            const local = manifest({ 'App.dll': 'a1' });
+
+            assert.deepStrictEqual(getChangedFiles(local, manifest({ 'app.dll': 'a1' })), ['App.dll']);
+        });
+    });
+
+    describe('globToRegExp', () => {
+        it('keeps * and ? within one segment and lets ** span directories', () => {
+            assert.ok(globToRegExp('*.json').test('appsettings.json'));
+            assert.ok(!globToRegExp('*.json').test('config/appsettings.json'));
+            assert.ok(globToRegExp('data/*.db').test('data/app.db'));
+            assert.ok(!globToRegExp('data/*.db').test('data/old/app.db'));
+            assert.ok(globToRegExp('logs/**').test('logs/2024/01/app.log'));
+            assert.ok(globToRegExp('log?.txt').test('log1.txt'));
+            assert.ok(!globToRegExp('log?.txt').test('log/.txt'));
+        });
+
+        it('matches other characters literally', () => {
+            assert.ok(globToRegExp('app.(1).json').test('app.(1).json'));
+            assert.ok(!globToRegExp('app.json').test('appXjson'));
+            assert.ok(!globToRegExp('logs/**').test('mylogs/app.log'));
+        });
+    });
+
+    describe('isProtectedPath', () => {
+        const check = (relativePath: string, globs: string[]) => isProtectedPath(
+            relativePath,
+            globs.filter(g => g.includes('/')).map(globToRegExp),
+            globs.filter(g => !g.includes('/')).map(globToRegExp)
+        );
+        const defaults = ['appsettings.Production.json', 'logs/**', 'data/**'];
+
+        it('keeps files matching the default protected paths', () => {
+            assert.ok(check('appsettings.Production.json', defaults));
+            assert.ok(check('logs/app.log', defaults));
+            assert.ok(check('data/uploads/a.png', defaults));
+            assert.ok(!check('appsettings.Development.json', defaults));
+            assert.ok(!check('old.dll', defaults));
+        });
+
+        it('matches patterns without a slash against the file name in any directory', () => {
+            assert.ok(check('config/appsettings.Production.json', defaults));
+            assert.ok(check('a/b/c/keep.txt', ['keep.txt']));
+            assert.ok(!check('config/logs', ['config/*.log']));
+        });
+
+        it('keeps the directory a ** pattern protects', () => {
+            assert.ok(check('logs', defaults));
+            assert.ok(check('data', defaults));
+            assert.ok(!check('wwwroot', defaults));
+        });
+    });
+
+    describe('resolveProxyJump', () => {
+        let dir: string;
+        let keyPath: string;
+        const writeConfig = (...lines: string[]) => fs.writeFileSync(path.join(dir, 'config'), lines.join('\n') + '\n');
+        const endpoints = (proxyJump: string, visited?: string[]) =>
+            resolveProxyJump(proxyJump, 'me', visited).map(hop => `${hop.username}@${hop.host}:${hop.port}`);
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proxy-jump-'));
+            keyPath = path.join(dir, 'bastion_key');
+            fs.writeFileSync(keyPath, '');
+            settings['dotnetDeploy.server.sshConfigPath'] = path.join(dir, 'config');
+        });
+
+        afterEach(() => {
+            delete settings['dotnetDeploy.server.sshConfigPath'];
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('resolves each hop from ssh config, with explicit user and port taking precedence', () => {
+            writeConfig(
+                'Host bastion',
+                '    HostName 10.0.0.1',
+                '    User ops',
+                '    Port 2200',
+                `    IdentityFile ${keyPath}`);
+
+            assert.deepStrictEqual(endpoints('bastion,admin@inner:2222,[fe80::1]:22'), [
+                'ops@10.0.0.1:2200',
+                'admin@inner:2222',
+                'me@fe80::1:22'
+            ]);
+            assert.deepStrictEqual(resolveProxyJump('root@bastion:22', 'me')[0], {
+                host: '10.0.0.1',
+                port: 22,
+                username: 'root',
+                authType: 'key',
+                privateKeyPath: keyPath
+            });
+        });
+
+        it('puts the jump hosts of the first hop in front of it', () => {
+            writeConfig(
+                'Host inner',
+                '    ProxyJump edge',
+                'Host edge',
+                '    ProxyJump outer',
+                'Host other',
+                '    ProxyJump ignored');
+
+            assert.deepStrictEqual(endpoints('inner,other'), ['me@outer:22', 'me@edge:22', 'me@inner:22', 'me@other:22']);
+        });
+
+        it('rejects ProxyJump loops', () => {
+            writeConfig(
+                'Host a',
+                '    ProxyJump b',
+                'Host b',
+                '    ProxyJump a');
+
+            assert.throws(() => endpoints('a'), /ProxyJump loop through a/);
+            assert.throws(() => endpoints('web', ['web']), /ProxyJump loop through web/);
+        });
+    });
+});
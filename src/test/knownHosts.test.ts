@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { checkHostKey, getKnownKeyTypes, getHostKeyAlgorithms, getKeyType } from '../knownHosts';
+
+/**
+ * Raw SSH public key blob: string key type followed by random key material
+ */
+function makeKey(keyType: string): Buffer {
+    const type = Buffer.from(keyType);
+    const typeLength = Buffer.alloc(4);
+    typeLength.writeUInt32BE(type.length);
+    const material = crypto.randomBytes(32);
+    const materialLength = Buffer.alloc(4);
+    materialLength.writeUInt32BE(material.length);
+    return Buffer.concat([typeLength, type, materialLength, material]);
+}
+
+function line(hosts: string, key: Buffer, marker?: string): string {
+    return `${marker ? marker + ' ' : ''}${hosts} ${getKeyType(key)} ${key.toString('base64')}`;
+}
+
+function hashHost(hostPattern: string): string {
+    const salt = crypto.randomBytes(20);
+    const hash = crypto.createHmac('sha1', salt).update(hostPattern).digest('base64');
+    return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+describe('knownHosts', () => {
+    let dir: string;
+    let knownHostsPath: string;
+    const write = (...lines: string[]) => fs.writeFileSync(knownHostsPath, lines.join('\n') + '\n');
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'known-hosts-'));
+        knownHostsPath = path.join(dir, 'known_hosts');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('treats a missing file as unknown', () => {
+        assert.strictEqual(checkHostKey('example.com', 22, makeKey('ssh-ed25519'), knownHostsPath), 'unknown');
+    });
+
+    it('matches a recorded key and detects a changed key of the same type', () => {
+        const key = makeKey('ssh-ed25519');
+        write('# comment', line('example.com,10.0.0.1', key));
+
+        assert.strictEqual(checkHostKey('example.com', 22, key, knownHostsPath), 'match');
+        assert.strictEqual(checkHostKey('10.0.0.1', 22, key, knownHostsPath), 'match');
+        assert.strictEqual(checkHostKey('example.com', 22, makeKey('ssh-ed25519'), knownHostsPath), 'mismatch');
+        assert.strictEqual(checkHostKey('other.com', 22, key, knownHostsPath), 'unknown');
+    });
+
+    it('reports a key of an unrecorded type instead of treating the host as new', () => {
+        write(line('example.com', makeKey('ssh-rsa')));
+
+        assert.strictEqual(checkHostKey('example.com', 22, makeKey('ssh-ed25519'), knownHostsPath), 'other-type');
+        assert.deepStrictEqual(getKnownKeyTypes('example.com', 22, knownHostsPath), ['ssh-rsa']);
+    });
+
+    it('uses the [host]:port form for non-standard ports', () => {
+        const key = makeKey('ssh-ed25519');
+        write(line('[example.com]:2222', key));
+
+        assert.strictEqual(checkHostKey('example.com', 2222, key, knownHostsPath), 'match');
+        assert.strictEqual(checkHostKey('example.com', 22, key, knownHostsPath), 'unknown');
+    });
+
+    it('matches hashed host names', () => {
+        const key = makeKey('ecdsa-sha2-nistp256');
+        write(line(hashHost('example.com'), key), line(hashHost('[example.com]:2222'), key));
+
+        assert.strictEqual(checkHostKey('example.com', 22, key, knownHostsPath), 'match');
+        assert.strictEqual(checkHostKey('example.com', 2222, key, knownHostsPath), 'match');
+        assert.strictEqual(checkHostKey('example.org', 22, key, knownHostsPath), 'unknown');
+    });
+
+    it('honours wildcards and negated patterns', () => {
+        const key = makeKey('ssh-ed25519');
+        write(line('*.example.com,!bad.example.com', key));
+
+        assert.strictEqual(checkHostKey('web.example.com', 22, key, knownHostsPath), 'match');
+        assert.strictEqual(checkHostKey('bad.example.com', 22, key, knownHostsPath), 'unknown');
+    });
+
+    it('rejects revoked keys and ignores certificate authorities', () => {
+        const revoked = makeKey('ssh-ed25519');
+        const ca = makeKey('ssh-ed25519');
+        write(line('example.com', revoked), line('*', revoked, '@revoked'), line('*.example.org', ca, '@cert-authority'));
+
+        assert.strictEqual(checkHostKey('example.com', 22, revoked, knownHostsPath), 'mismatch');
+        assert.strictEqual(checkHostKey('web.example.org', 22, ca, knownHostsPath), 'unknown');
+        assert.deepStrictEqual(getKnownKeyTypes('web.example.org', 22, knownHostsPath), []);
+    });
+
+    it('maps recorded key types to host key algorithms', () => {
+        assert.deepStrictEqual(getHostKeyAlgorithms(['ssh-rsa']), ['rsa-sha2-512', 'rsa-sha2-256', 'ssh-rsa']);
+        assert.deepStrictEqual(getHostKeyAlgorithms(['ssh-ed25519', 'sk-ssh-ed25519@openssh.com']), ['ssh-ed25519']);
+    });
+});
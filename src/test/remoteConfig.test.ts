@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { formatEnvValue, parseEnvFile, renderConfigFiles } from '../remoteConfig';
+
+describe('remoteConfig', () => {
+    it('quotes only values that need it', () => {
+        assert.strictEqual(formatEnvValue('Server=db;'), '"Server=db;"');
+        assert.strictEqual(formatEnvValue('https://example.com/api'), 'https://example.com/api');
+        assert.strictEqual(formatEnvValue(''), '');
+    });
+
+    it('round-trips values through the rendered .env file', () => {
+        const variables: Record<string, string> = {
+            PLAIN: 'value',
+            EMPTY: '',
+            SPACES: 'two words  and more',
+            QUOTES: 'say "hi" and \'bye\'',
+            DOLLAR: 'pa$$word $HOME ${PATH}',
+            BACKTICK: '`whoami`',
+            BACKSLASH: 'C:\\temp\\new\\n',
+            NEWLINE: 'line one\nline two',
+            HASH: 'a # not a comment',
+            'Logging__LogLevel__Default': 'Warning'
+        };
+
+        const { envFile } = renderConfigFiles({ variables, secretNames: new Set() });
+        assert.ok(envFile);
+        assert.strictEqual(envFile.split('\n').filter(line => line && !line.startsWith('#')).length, Object.keys(variables).length);
+        assert.deepStrictEqual(parseEnvFile(envFile), variables);
+    });
+
+    it('parses hand-written files with export, comments and CRLF', () => {
+        assert.deepStrictEqual(parseEnvFile('# comment\r\nexport A=1\r\n  B = 2\r\nC="x y"\r\nnot a line\r\n'), {
+            A: '1',
+            C: 'x y'
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveSshHost, listSshHosts } from '../sshConfig';
+
+describe('sshConfig', () => {
+    let dir: string;
+    let configPath: string;
+    const write = (fileName: string, ...lines: string[]) => {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, lines.join('\n') + '\n');
+        return filePath;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssh-config-'));
+        configPath = path.join(dir, 'config');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('takes the first value of each option and collects every IdentityFile', () => {
+        write('config',
+            'Host web',
+            '    HostName 10.0.0.5',
+            '    User deploy',
+            '    IdentityFile /keys/web',
+            'Host *',
+            '    User root',
+            '    Port 2222',
+            '    IdentityFile /keys/default');
+
+        assert.deepStrictEqual(resolveSshHost('web', configPath), {
+            alias: 'web',
+            hostName: '10.0.0.5',
+            user: 'deploy',
+            port: 2222,
+            identityFiles: ['/keys/web', '/keys/default']
+        });
+        assert.strictEqual(resolveSshHost('unlisted', configPath), undefined);
+    });
+
+    it('reads ProxyJump, where an earlier none disables a later default', () => {
+        write('config',
+            'Host bastion',
+            '    ProxyJump none',
+            'Host web db',
+            '    ProxyJump ops@bastion:2200,inner',
+            'Host *',
+            '    ProxyJump bastion');
+
+        assert.strictEqual(resolveSshHost('web', configPath)?.proxyJump, 'ops@bastion:2200,inner');
+        assert.strictEqual(resolveSshHost('db', configPath)?.proxyJump, 'ops@bastion:2200,inner');
+        assert.strictEqual(resolveSshHost('bastion', configPath)?.proxyJump, undefined);
+    });
+
+    it('applies top-level includes to every host', () => {
+        const included = write('common', 'User shared', 'Host db', '    HostName 10.0.0.9');
+        write('config', `Include ${included}`, 'Host web', '    User deploy');
+
+        assert.strictEqual(resolveSshHost('web', configPath)?.user, 'shared');
+        assert.strictEqual(resolveSshHost('db', configPath)?.hostName, '10.0.0.9');
+    });
+
+    it('scopes an Include inside a Host block to that block', () => {
+        const included = write('work',
+            'User from-include',
+            'Host *.internal',
+            '    Port 2200',
+            'Host jump',
+            '    HostName 10.1.0.1');
+        write('config',
+            'Host *.work',
+            '    HostName gateway.work',
+            `    Include ${included}`,
+            '    User after-include',
+            'Host jump api.work',
+            '    User fallback',
+            'Host *',
+            '    User default');
+
+        // 被引入的选项只对 *.work 生效，Include 之后的选项仍属于 *.work 块
+        assert.deepStrictEqual(resolveSshHost('api.work', configPath), {
+            alias: 'api.work',
+            hostName: 'gateway.work',
+            user: 'from-include',
+            identityFiles: []
+        });
+        assert.strictEqual(resolveSshHost('jump', configPath)?.user, 'fallback');
+        assert.strictEqual(resolveSshHost('jump', configPath)?.hostName, undefined);
+        assert.deepStrictEqual(listSshHosts(configPath).map(host => host.alias), ['jump', 'api.work']);
+    });
+
+    it('keeps options after an Include in the enclosing block', () => {
+        const included = write('extra', 'Port 2201');
+        write('config',
+            'Host web',
+            `    Include ${included}`,
+            '    User after-include',
+            'Host *',
+            '    User default');
+
+        const web = resolveSshHost('web', configPath);
+        assert.strictEqual(web?.port, 2201);
+        assert.strictEqual(web?.user, 'after-include');
+    });
+
+    it('skips Match blocks and the includes inside them', () => {
+        const included = write('matched', 'User from-match');
+        write('config',
+            'Match host web',
+            '    User matched',
+            `    Include ${included}`,
+            'Host web',
+            '    User deploy');
+
+        assert.strictEqual(resolveSshHost('web', configPath)?.user, 'deploy');
+    });
+});
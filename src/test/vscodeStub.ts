@@ -0,0 +1,36 @@
+import Module = require('module');
+
+/**
+ * Minimal stand-in for the `vscode` module so pure helpers can be unit tested outside the extension host.
+ * Settings return the value set in `settings` (keyed by full name) or their default; UI calls resolve without a selection.
+ */
+export const settings: Record<string, unknown> = {};
+
+const vscodeStub = {
+    CancellationError: class CancellationError extends Error { },
+    EventEmitter: class EventEmitter {
+        public event = () => ({ dispose: () => undefined });
+        public fire() { }
+        public dispose() { }
+    },
+    workspace: {
+        getConfiguration: (section?: string) => ({
+            get: <T>(key: string, defaultValue?: T) => {
+                const name = section ? `${section}.${key}` : key;
+                return name in settings ? settings[name] as T : defaultValue;
+            }
+        })
+    },
+    window: {
+        showWarningMessage: async () => undefined,
+        showErrorMessage: async () => undefined,
+        showInformationMessage: async () => undefined,
+        showInputBox: async () => undefined
+    }
+};
+
+const loader = Module as unknown as { _load(request: string, ...args: unknown[]): unknown };
+const originalLoad = loader._load;
+loader._load = function (request: string, ...args: unknown[]) {
+    return request === 'vscode' ? vscodeStub : originalLoad.call(this, request, ...args);
+};
@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { GitInfo } from './buildInfo';
+
+export type VersionSource = 'none' | 'gitTag' | 'versionFile' | 'manual';
+
+/**
+ * Version passed to dotnet publish, the macOS packager and notifications
+ */
+export interface VersionStamp {
+    /** -p:Version, e.g. 1.2.3 or 1.2.3-beta.1 */
+    version: string;
+    /** major.minor.patch without the prerelease label (CFBundleShortVersionString) */
+    numericVersion: string;
+    buildNumber: number;
+    /** -p:FileVersion, major.minor.patch.build */
+    fileVersion: string;
+    /** -p:InformationalVersion, e.g. 1.2.3+build.42.1a2b3c4d */
+    informationalVersion: string;
+    source: Exclude<VersionSource, 'none'>;
+}
+
+const BUILD_NUMBER_PREFIX = 'dotnetDeploy.buildNumber:';
+/** Each FileVersion part is a 16-bit number */
+const MAX_FILE_VERSION_PART = 65535;
+
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * Register the memento holding the build counters (called once from activate)
+ */
+export function initVersioning(state: vscode.Memento): void {
+    workspaceState = state;
+}
+
+/**
+ * Parse 1.2 / 1.2.3 / 1.2.3-beta.1; undefined when the text is not a version
+ */
+function parseVersion(text: string): { version: string; numericVersion: string } | undefined {
+    const match = text.trim().match(/^(\d+)\.(\d+)(?:\.(\d+))?(-[0-9A-Za-z.-]+)?$/);
+    if (!match) {
+        return undefined;
+    }
+    const numericVersion = `${match[1]}.${match[2]}.${match[3] || '0'}`;
+    return { version: numericVersion + (match[4] || ''), numericVersion };
+}
+
+/**
+ * Latest tag reachable from HEAD that starts with the prefix, without the prefix
+ */
+function readGitTag(cwd: string, prefix: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', ['describe', '--tags', '--abbrev=0', '--match', `${prefix}*`], { cwd, timeout: 10000 }, (err, stdout) => {
+            if (err) {
+                reject(new Error(`未找到以 "${prefix}" 开头的 Git 标签`));
+                return;
+            }
+            resolve(stdout.trim().slice(prefix.length));
+        });
+    });
+}
+
+/**
+ * Find the version file next to the project or in one of its parent directories (up to the workspace folder)
+ */
+function findVersionFile(projectDir: string, fileName: string): string | undefined {
+    if (path.isAbsolute(fileName)) {
+        return fs.existsSync(fileName) ? fileName : undefined;
+    }
+    const root = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectDir))?.uri.fsPath;
+    let dir = projectDir;
+    while (true) {
+        const candidate = path.join(dir, fileName);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+        const parent = path.dirname(dir);
+        if (dir === root || parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+async function readBaseVersion(source: Exclude<VersionSource, 'none'>, projectDir: string): Promise<string> {
+    const config = vscode.workspace.getConfiguration('dotnetDeploy.version');
+    switch (source) {
+        case 'gitTag':
+            return readGitTag(projectDir, config.get<string>('tagPrefix', 'v'));
+        case 'versionFile': {
+            const fileName = config.get<string>('file', 'version.json');
+            const filePath = findVersionFile(projectDir, fileName);
+            if (!filePath) {
+                throw new Error(`未找到版本文件 ${fileName}`);
+            }
+            const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            if (typeof content.version !== 'string') {
+                throw new Error(`${filePath} 中缺少 "version" 字段`);
+            }
+            return content.version;
+        }
+        default:
+            return config.get<string>('value', '');
+    }
+}
+
+/**
+ * Next build number of the project; the counter is kept in the workspace state and survives restarts
+ */
+async function nextBuildNumber(projectName: string): Promise<number> {
+    const key = BUILD_NUMBER_PREFIX + projectName;
+    const buildNumber = (workspaceState?.get<number>(key) || 0) + 1;
+    await workspaceState?.update(key, buildNumber);
+    return buildNumber;
+}
+
+/**
+ * Resolve the version for this publish from the version.source setting.
+ * Returns undefined when versioning is off; throws when the configured source has no usable version.
+ */
+export async function resolveVersion(projectName: string, projectDir: string, gitInfo?: GitInfo): Promise<VersionStamp | undefined> {
+    const source = vscode.workspace.getConfiguration('dotnetDeploy.version').get<VersionSource>('source', 'none');
+    if (source === 'none') {
+        return undefined;
+    }
+
+    const base = await readBaseVersion(source, projectDir);
+    const parsed = parseVersion(base);
+    if (!parsed) {
+        throw new Error(`无效的版本号 "${base}"，应为 1.2.3 或 1.2.3-beta.1 格式`);
+    }
+    if (parsed.numericVersion.split('.').some(part => parseInt(part, 10) > MAX_FILE_VERSION_PART)) {
+        throw new Error(`版本号 ${base} 的每一段不能大于 ${MAX_FILE_VERSION_PART}`);
+    }
+
+    const buildNumber = await nextBuildNumber(projectName);
+    // FileVersion 每段最大 65535，build 号超出后回绕
+    const fileVersion = `${parsed.numericVersion}.${buildNumber % (MAX_FILE_VERSION_PART + 1)}`;
+    const metadata = [`build.${buildNumber}`, ...(gitInfo ? [gitInfo.commit.slice(0, 8)] : [])].join('.');
+
+    return {
+        ...parsed,
+        buildNumber,
+        fileVersion,
+        informationalVersion: `${parsed.version}+${metadata}`,
+        source
+    };
+}
+
+/**
+ * MSBuild properties that stamp the assemblies
+ */
+export function getVersionArgs(stamp: VersionStamp): string[] {
+    return [
+        `-p:Version=${stamp.version}`,
+        `-p:FileVersion=${stamp.fileVersion}`,
+        `-p:InformationalVersion=${stamp.informationalVersion}`,
+        // .NET 8 SDK 默认会在 InformationalVersion 后再追加 +commit
+        '-p:IncludeSourceRevisionInInformationalVersion=false'
+    ];
+}
+
+/**
+ * Short form for logs and notifications, e.g. 1.2.3 (build 42)
+ */
+export function describeVersion(stamp: VersionStamp): string {
+    return `${stamp.version} (build ${stamp.buildNumber})`;
+}